@@ -0,0 +1,79 @@
+import { Draft } from '../types'
+
+export interface DraftPickerCallbacks {
+  onSelect: (draftId: string) => void
+  onCreate: (name: string) => void
+  onDuplicate: (draftId: string, name: string) => void
+  onRename: (draftId: string, name: string) => void
+  onDelete: (draftId: string) => void
+}
+
+export class DraftPicker {
+  private drafts: Draft[] = []
+  private activeId: string | null = null
+
+  constructor(
+    private callbacks: DraftPickerCallbacks
+  ) {}
+
+  initialize(): void {
+    const draftSelect = document.getElementById('draft-select') as HTMLSelectElement
+    draftSelect?.addEventListener('change', () => {
+      if (draftSelect.value) this.callbacks.onSelect(draftSelect.value)
+    })
+
+    document.getElementById('new-draft-button')?.addEventListener('click', () => {
+      const name = prompt('Draft name:', `Draft ${this.drafts.length + 1}`)?.trim()
+      if (name) {
+        this.callbacks.onCreate(name)
+      }
+    })
+
+    document.getElementById('duplicate-draft-button')?.addEventListener('click', () => {
+      const active = this.getActive()
+      if (!active) return
+      const name = prompt('Name for the copy:', `${active.name} (copy)`)?.trim()
+      if (name) {
+        this.callbacks.onDuplicate(active.id, name)
+      }
+    })
+
+    document.getElementById('rename-draft-button')?.addEventListener('click', () => {
+      const active = this.getActive()
+      if (!active) return
+      const name = prompt('Rename draft:', active.name)?.trim()
+      if (name) {
+        this.callbacks.onRename(active.id, name)
+      }
+    })
+
+    document.getElementById('delete-draft-button')?.addEventListener('click', () => {
+      const active = this.getActive()
+      if (!active) return
+      if (confirm(`Delete the draft "${active.name}"? This can't be undone.`)) {
+        this.callbacks.onDelete(active.id)
+      }
+    })
+  }
+
+  render(drafts: Draft[], activeId: string | null): void {
+    this.drafts = drafts
+    this.activeId = activeId
+
+    const draftSelect = document.getElementById('draft-select') as HTMLSelectElement
+    if (!draftSelect) return
+
+    draftSelect.innerHTML = ''
+    drafts.forEach(draft => {
+      const option = document.createElement('option')
+      option.value = draft.id
+      option.textContent = draft.name
+      draftSelect.appendChild(option)
+    })
+    draftSelect.value = activeId || ''
+  }
+
+  private getActive(): Draft | undefined {
+    return this.drafts.find(d => d.id === this.activeId)
+  }
+}
@@ -0,0 +1,312 @@
+import {
+  AppBskyEmbedExternal,
+  AppBskyEmbedImages,
+  AppBskyEmbedRecord,
+  AppBskyEmbedRecordWithMedia,
+  AppBskyEmbedVideo,
+  AppBskyFeedDefs,
+  AppBskyFeedPost,
+  AppBskyGraphDefs,
+  AppBskyRichtextFacet,
+  RichText,
+} from '@atproto/api'
+import type Hls from 'hls.js'
+import { buildHashtagUrl, buildPostUrl, buildProfileUrl } from '../utils/identity'
+
+export interface PostRendererOptions {
+  getWebAppUrl: () => string
+}
+
+const HLS_MIME_TYPE = 'application/vnd.apple.mpegurl'
+
+function isWebLink(uri: string): boolean {
+  return /^https?:\/\//i.test(uri)
+}
+
+/**
+ * Renders post text and the app.bsky.embed.* views returned by the
+ * AppView: images, link cards, videos, quoted records and record with
+ * media. Links inside rendered posts don't trigger the post's own click
+ * handler.
+ */
+export class PostRenderer {
+  private hlsPlayers = new Set<Hls>()
+
+  constructor(private options: PostRendererOptions) {}
+
+  /**
+   * Stop the HLS players of rendered videos. Call before removing the
+   * rendered posts from the page.
+   */
+  destroyVideos(): void {
+    this.hlsPlayers.forEach(hls => hls.destroy())
+    this.hlsPlayers.clear()
+  }
+
+  /**
+   * Post text with mentions, links and hashtags made clickable
+   */
+  renderText(text: string, facets?: AppBskyRichtextFacet.Main[]): HTMLElement {
+    const textDiv = document.createElement('div')
+    textDiv.className = 'post-text'
+
+    const richText = new RichText({ text, facets })
+    for (const segment of richText.segments()) {
+      // Facets come from other people's records; only follow web links
+      if (segment.link && isWebLink(segment.link.uri)) {
+        textDiv.appendChild(this.createLink(segment.link.uri, segment.text))
+      } else if (segment.mention) {
+        textDiv.appendChild(this.createLink(buildProfileUrl(this.options.getWebAppUrl(), segment.mention.did), segment.text))
+      } else if (segment.tag) {
+        textDiv.appendChild(this.createLink(buildHashtagUrl(this.options.getWebAppUrl(), segment.tag.tag), segment.text))
+      } else {
+        textDiv.appendChild(document.createTextNode(segment.text))
+      }
+    }
+
+    return textDiv
+  }
+
+  /**
+   * The element for an embed view, or null for types we don't show
+   */
+  renderEmbed(embed: unknown): HTMLElement | null {
+    if (AppBskyEmbedImages.isView(embed)) {
+      return this.renderImages(embed)
+    }
+    if (AppBskyEmbedExternal.isView(embed)) {
+      return this.renderExternal(embed)
+    }
+    if (AppBskyEmbedVideo.isView(embed)) {
+      return this.renderVideo(embed)
+    }
+    if (AppBskyEmbedRecord.isView(embed)) {
+      return this.renderRecord(embed)
+    }
+    if (AppBskyEmbedRecordWithMedia.isView(embed)) {
+      const container = document.createElement('div')
+      container.className = 'post-embed-stack'
+      const media = this.renderEmbed(embed.media)
+      if (media) container.appendChild(media)
+      container.appendChild(this.renderRecord(embed.record))
+      return container
+    }
+    return null
+  }
+
+  private renderImages(embed: AppBskyEmbedImages.View): HTMLElement {
+    const imagesDiv = document.createElement('div')
+    imagesDiv.className = 'post-images'
+
+    embed.images.forEach(image => {
+      const imgContainer = document.createElement('div')
+      imgContainer.className = 'post-image-container'
+
+      const img = document.createElement('img')
+      img.src = image.thumb || image.fullsize
+      img.alt = image.alt || ''
+      img.title = image.alt || ''
+      img.className = 'post-image'
+      img.loading = 'lazy'
+
+      // Set aspect ratio if available to maintain proper dimensions
+      if (image.aspectRatio) {
+        imgContainer.style.aspectRatio = `${image.aspectRatio.width} / ${image.aspectRatio.height}`
+      }
+
+      // Make image clickable to view full size
+      if (image.fullsize) {
+        img.style.cursor = 'pointer'
+        img.addEventListener('click', (e) => {
+          e.stopPropagation()
+          window.open(image.fullsize, '_blank')
+        })
+      }
+
+      imgContainer.appendChild(img)
+      imagesDiv.appendChild(imgContainer)
+    })
+
+    return imagesDiv
+  }
+
+  private renderExternal(embed: AppBskyEmbedExternal.View): HTMLElement {
+    const { external } = embed
+    const card = isWebLink(external.uri) ? this.createLink(external.uri, '') : document.createElement('div')
+    card.className = 'post-external-card'
+
+    if (external.thumb) {
+      const thumb = document.createElement('img')
+      thumb.src = external.thumb
+      thumb.alt = ''
+      thumb.loading = 'lazy'
+      card.appendChild(thumb)
+    }
+
+    const body = document.createElement('div')
+    body.className = 'post-external-body'
+
+    const domain = document.createElement('div')
+    domain.className = 'post-external-domain'
+    try {
+      domain.textContent = new URL(external.uri).hostname.replace(/^www\./, '')
+    } catch {
+      domain.textContent = external.uri
+    }
+    body.appendChild(domain)
+
+    if (external.title) {
+      const title = document.createElement('div')
+      title.className = 'post-external-title'
+      title.textContent = external.title
+      body.appendChild(title)
+    }
+    if (external.description) {
+      const description = document.createElement('div')
+      description.className = 'post-external-description'
+      description.textContent = external.description
+      body.appendChild(description)
+    }
+
+    card.appendChild(body)
+    return card
+  }
+
+  /**
+   * Play the HLS playlist inline where the browser supports it; otherwise
+   * show the thumbnail with a note
+   */
+  private renderVideo(embed: AppBskyEmbedVideo.View): HTMLElement {
+    const container = document.createElement('div')
+    container.className = 'post-video'
+    if (embed.aspectRatio) {
+      container.style.aspectRatio = `${embed.aspectRatio.width} / ${embed.aspectRatio.height}`
+    }
+    container.addEventListener('click', (e) => e.stopPropagation())
+
+    const video = document.createElement('video')
+    video.crossOrigin = 'anonymous'
+    video.preload = 'none'
+    video.playsInline = true
+    if (embed.thumbnail) video.poster = embed.thumbnail
+    if (embed.alt) {
+      video.title = embed.alt
+      video.setAttribute('aria-label', embed.alt)
+    }
+
+    container.appendChild(video)
+    if (video.canPlayType(HLS_MIME_TYPE)) {
+      // Safari plays HLS natively
+      video.src = embed.playlist
+      video.controls = true
+    } else {
+      this.attachHlsPlayer(container, video, embed.playlist).catch(error => {
+        console.error('Failed to load the video player:', error)
+        this.showVideoFallback(container, video)
+      })
+    }
+
+    return container
+  }
+
+  /**
+   * Play an HLS playlist through Media Source Extensions, for browsers
+   * without native HLS. Segments are only loaded once the video is played.
+   */
+  private async attachHlsPlayer(container: HTMLElement, video: HTMLVideoElement, playlist: string): Promise<void> {
+    const { default: Hls } = await import('hls.js')
+    if (!Hls.isSupported()) {
+      throw new Error('This browser has no Media Source Extensions')
+    }
+
+    const hls = new Hls({ autoStartLoad: false })
+    this.hlsPlayers.add(hls)
+    hls.on(Hls.Events.ERROR, (_event, data) => {
+      if (!data.fatal) return
+      console.error('Video playback failed:', data.details)
+      hls.destroy()
+      this.hlsPlayers.delete(hls)
+      this.showVideoFallback(container, video)
+    })
+    hls.loadSource(playlist)
+    hls.attachMedia(video)
+    video.addEventListener('play', () => hls.startLoad(), { once: true })
+    video.controls = true
+  }
+
+  private showVideoFallback(container: HTMLElement, video: HTMLVideoElement): void {
+    video.controls = false
+    const fallback = document.createElement('div')
+    fallback.className = 'post-video-fallback'
+    fallback.textContent = 'This browser can\'t play the video here; open the post on Bluesky to watch it'
+    container.appendChild(fallback)
+  }
+
+  /**
+   * A quoted post, or a placeholder for one that can't be shown
+   */
+  private renderRecord(embed: AppBskyEmbedRecord.View): HTMLElement {
+    const { record } = embed
+    const quote = document.createElement('div')
+    quote.className = 'post-quote'
+
+    if (AppBskyEmbedRecord.isViewRecord(record) && AppBskyFeedPost.isRecord(record.value)) {
+      const header = document.createElement('div')
+      header.className = 'post-quote-author'
+      const author = this.createLink(buildProfileUrl(this.options.getWebAppUrl(), record.author.handle), `@${record.author.handle}`)
+      header.appendChild(author)
+      if (record.author.displayName) {
+        header.appendChild(document.createTextNode(` ${record.author.displayName}`))
+      }
+      quote.appendChild(header)
+
+      const { value } = record
+      if (value.text) {
+        quote.appendChild(this.renderText(value.text, value.facets))
+      }
+
+      // Quotes nest one level deep in the AppView's response
+      for (const nested of record.embeds || []) {
+        const element = this.renderEmbed(nested)
+        if (element) quote.appendChild(element)
+      }
+
+      quote.style.cursor = 'pointer'
+      quote.addEventListener('click', (e) => {
+        e.stopPropagation()
+        window.open(buildPostUrl(this.options.getWebAppUrl(), record.author.handle, record.uri), '_blank')
+      })
+    } else if (AppBskyEmbedRecord.isViewRecord(record)) {
+      quote.classList.add('unavailable')
+      quote.textContent = 'Quoted post couldn\'t be read'
+    } else if (AppBskyEmbedRecord.isViewNotFound(record)) {
+      quote.classList.add('unavailable')
+      quote.textContent = 'Quoted post not found; it may have been deleted'
+    } else if (AppBskyEmbedRecord.isViewBlocked(record)) {
+      quote.classList.add('unavailable')
+      quote.textContent = 'Quoted post is from a blocked account'
+    } else if (AppBskyEmbedRecord.isViewDetached(record)) {
+      quote.classList.add('unavailable')
+      quote.textContent = 'The author removed this quote'
+    } else if (AppBskyFeedDefs.isGeneratorView(record)) {
+      quote.textContent = `Feed: ${record.displayName} by @${record.creator.handle}`
+    } else if (AppBskyGraphDefs.isListView(record)) {
+      quote.textContent = `List: ${record.name} by @${record.creator.handle}`
+    } else {
+      quote.classList.add('unavailable')
+      quote.textContent = 'Embedded record'
+    }
+
+    return quote
+  }
+
+  private createLink(href: string, text: string): HTMLAnchorElement {
+    const link = document.createElement('a')
+    link.href = href
+    link.target = '_blank'
+    link.rel = 'noopener noreferrer'
+    link.textContent = text
+    link.addEventListener('click', (e) => e.stopPropagation())
+    return link
+  }
+}
@@ -0,0 +1,264 @@
+import { QueuedPost, QueuedPostStatus } from '../types'
+import { describeInteractions, hasInteractionControls } from '../utils/interactions'
+import { describeLabels } from '../utils/contentLabels'
+import { getLinkDomain } from '../utils/linkMetadata'
+
+export interface QueuePanelCallbacks {
+  onReschedule: (id: string, publishAt: Date) => void
+  onEditText: (id: string, text: string) => void
+  onMove: (id: string, direction: -1 | 1) => void
+  onCancel: (id: string) => void
+  onPublishNow: (id: string) => void
+  onClearFinished: () => void
+}
+
+const STATUS_LABELS: Record<QueuedPostStatus, string> = {
+  scheduled: '⏰ Scheduled',
+  publishing: '⏳ Publishing',
+  published: '✅ Published',
+  missed: '⚠️ Missed',
+  failed: '❌ Failed',
+}
+
+/**
+ * Format a Date for a datetime-local input (local time, minute precision)
+ */
+export function toDateTimeLocalValue(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
+
+export class QueuePanel {
+  private editingId: string | null = null
+  private objectUrls: string[] = []
+  private items: QueuedPost[] = []
+
+  constructor(
+    private callbacks: QueuePanelCallbacks
+  ) {}
+
+  initialize(): void {
+    document.getElementById('clear-finished-queue')?.addEventListener('click', () => {
+      this.callbacks.onClearFinished()
+    })
+  }
+
+  render(items: QueuedPost[]): void {
+    this.items = items
+    const section = document.getElementById('queue-section')
+    const list = document.getElementById('queue-list')
+    const countBadge = document.getElementById('queue-count')
+    if (!section || !list) return
+
+    // Release thumbnails from the previous render
+    this.objectUrls.forEach(url => URL.revokeObjectURL(url))
+    this.objectUrls = []
+
+    section.style.display = items.length > 0 ? 'block' : 'none'
+    const pendingCount = items.filter(i => i.status === 'scheduled').length
+    if (countBadge) countBadge.textContent = String(pendingCount)
+
+    const clearBtn = document.getElementById('clear-finished-queue')
+    if (clearBtn) clearBtn.style.display = items.some(i => i.status === 'published') ? 'inline-block' : 'none'
+
+    list.innerHTML = ''
+    items.forEach(item => list.appendChild(this.createItemElement(item)))
+  }
+
+  private createItemElement(item: QueuedPost): HTMLElement {
+    const itemDiv = document.createElement('div')
+    itemDiv.className = `queue-item ${item.status}`
+
+    const header = document.createElement('div')
+    header.className = 'queue-item-header'
+
+    const status = document.createElement('span')
+    status.className = 'queue-item-status'
+    status.textContent = STATUS_LABELS[item.status]
+
+    const time = document.createElement('span')
+    time.className = 'queue-item-time'
+    time.textContent = new Date(item.publishAt).toLocaleString()
+
+    header.appendChild(status)
+    header.appendChild(time)
+    itemDiv.appendChild(header)
+
+    // Explain why a post needs attention
+    if (item.status === 'missed') {
+      const note = document.createElement('div')
+      note.className = 'queue-item-note'
+      note.textContent = 'This was due while the app was closed. Post it now or pick a new time.'
+      itemDiv.appendChild(note)
+    } else if (item.error) {
+      const note = document.createElement('div')
+      note.className = 'queue-item-note error'
+      note.textContent = item.error
+      itemDiv.appendChild(note)
+    }
+
+    const body = document.createElement('div')
+    body.className = 'queue-item-body'
+
+    if (item.media?.length) {
+      const thumbs = document.createElement('div')
+      thumbs.className = 'queue-item-thumbs'
+      for (const media of item.media) {
+        const url = URL.createObjectURL(media.blob)
+        this.objectUrls.push(url)
+        const thumb = document.createElement(media.kind === 'video' ? 'video' : 'img')
+        thumb.className = 'queue-item-thumb'
+        thumb.src = url
+        thumbs.appendChild(thumb)
+      }
+      body.appendChild(thumbs)
+    }
+
+    if (this.editingId === item.id) {
+      body.appendChild(this.createEditor(item))
+    } else {
+      const text = document.createElement('div')
+      text.className = 'queue-item-text'
+      text.textContent = [...(item.leadingParts || []), item.text].join('\n\n') || '(no text)'
+      body.appendChild(text)
+    }
+    itemDiv.appendChild(body)
+
+    const meta = document.createElement('div')
+    meta.className = 'queue-item-meta'
+    meta.textContent = item.replyToHandle
+      ? `Reply to @${item.replyToHandle} • as @${item.accountHandle}`
+      : `New thread • as @${item.accountHandle}`
+    if (item.leadingParts?.length) {
+      meta.textContent += ` • ${item.leadingParts.length + 1} parts`
+    }
+    if (item.labels?.length) {
+      meta.textContent += ` • ⚠️ ${describeLabels(item.labels)}`
+    }
+    if (hasInteractionControls(item.interactions)) {
+      meta.textContent += ` • ${describeInteractions(item.interactions)}`
+    }
+    if (item.quote) {
+      meta.textContent += ` • quoting @${item.quote.handle}`
+    }
+    if (item.linkCard) {
+      meta.textContent += ` • 🔗 ${getLinkDomain(item.linkCard.uri)}`
+    }
+    itemDiv.appendChild(meta)
+
+    if (item.status === 'published' && item.postUrl) {
+      const link = document.createElement('a')
+      link.href = item.postUrl
+      link.target = '_blank'
+      link.textContent = 'View on Bluesky →'
+      link.className = 'queue-item-link'
+      itemDiv.appendChild(link)
+    }
+
+    if (this.editingId !== item.id) {
+      itemDiv.appendChild(this.createActions(item))
+    }
+
+    return itemDiv
+  }
+
+  private createActions(item: QueuedPost): HTMLElement {
+    const actions = document.createElement('div')
+    actions.className = 'queue-item-actions'
+
+    const addAction = (label: string, title: string, handler: () => void) => {
+      const button = document.createElement('button')
+      button.className = 'icon-button'
+      button.textContent = label
+      button.title = title
+      button.addEventListener('click', handler)
+      actions.appendChild(button)
+    }
+
+    const isPending = item.status === 'scheduled' || item.status === 'missed'
+    if (isPending) {
+      const pending = this.items.filter(i => i.status === 'scheduled' || i.status === 'missed')
+      const index = pending.findIndex(i => i.id === item.id)
+      if (index > 0) addAction('↑', 'Swap with the previous slot', () => this.callbacks.onMove(item.id, -1))
+      if (index < pending.length - 1) addAction('↓', 'Swap with the next slot', () => this.callbacks.onMove(item.id, 1))
+      addAction('✏️', 'Edit', () => {
+        this.editingId = item.id
+        this.render(this.items)
+      })
+    }
+
+    if (item.status === 'missed' || item.status === 'failed') {
+      addAction('🚀', 'Post now', () => this.callbacks.onPublishNow(item.id))
+    }
+    if (item.status === 'failed') {
+      addAction('✏️', 'Edit and reschedule', () => {
+        this.editingId = item.id
+        this.render(this.items)
+      })
+    }
+
+    if (item.status !== 'publishing' && item.status !== 'published') {
+      addAction('🗑️', 'Cancel', () => {
+        if (confirm('Cancel this scheduled post?')) {
+          this.callbacks.onCancel(item.id)
+        }
+      })
+    }
+
+    return actions
+  }
+
+  private createEditor(item: QueuedPost): HTMLElement {
+    const editor = document.createElement('div')
+    editor.className = 'queue-item-editor'
+
+    const textInput = document.createElement('textarea')
+    textInput.rows = 3
+    textInput.value = item.text
+    // Editing one part could push it over the limit; split scenes are
+    // rescheduled here and rewritten in the editor
+    if (item.leadingParts?.length) {
+      textInput.readOnly = true
+      textInput.value = [...item.leadingParts, item.text].join('\n\n')
+      textInput.title = 'Split scenes can only be rescheduled here'
+    }
+
+    const timeInput = document.createElement('input')
+    timeInput.type = 'datetime-local'
+    timeInput.value = toDateTimeLocalValue(new Date(item.publishAt))
+
+    const saveBtn = document.createElement('button')
+    saveBtn.className = 'primary-button'
+    saveBtn.textContent = 'Save'
+    saveBtn.addEventListener('click', () => {
+      const publishAt = new Date(timeInput.value)
+      if (isNaN(publishAt.getTime())) {
+        alert('Please pick a valid publish time')
+        return
+      }
+      this.editingId = null
+      if (!textInput.readOnly && textInput.value !== item.text) {
+        this.callbacks.onEditText(item.id, textInput.value)
+      }
+      this.callbacks.onReschedule(item.id, publishAt)
+    })
+
+    const cancelBtn = document.createElement('button')
+    cancelBtn.className = 'secondary-button'
+    cancelBtn.textContent = 'Cancel'
+    cancelBtn.addEventListener('click', () => {
+      this.editingId = null
+      this.render(this.items)
+    })
+
+    const buttons = document.createElement('div')
+    buttons.className = 'queue-item-actions'
+    buttons.appendChild(saveBtn)
+    buttons.appendChild(cancelBtn)
+
+    editor.appendChild(textInput)
+    editor.appendChild(timeInput)
+    editor.appendChild(buttons)
+    return editor
+  }
+}
@@ -1,11 +1,26 @@
 import { ImageGeneratorService } from '../services/imageGenerator'
-import { Post, SceneData } from '../types'
+import { LinkPreview, prepareThumbnail } from '../services/linkPreview'
+import { ContentLabel, ImagePanelSettings, InteractionSettings, LinkCard, PanelAspectRatio, Post, ReplyRule, SceneData, SplitSettings } from '../types'
 import { stripMarkdown } from '../utils/markdown'
+import { MAX_IMAGE_PANELS, PANEL_ASPECT_RATIOS, joinPanels, splitPanels } from '../utils/panels'
+import { SceneTextPlan, buildSceneText, planSceneText } from '../utils/sceneText'
+import { IMAGE_ALT_LIMIT, POST_TEXT_LIMIT, TextLimit, describeOverLimit, measureText } from '../utils/textMeasure'
+import { describeInteractions } from '../utils/interactions'
+import { describeLabels } from '../utils/contentLabels'
+import { findFirstLink, getLinkDomain } from '../utils/linkMetadata'
+import { blobToDataUrl } from '../utils/blob'
+import { getErrorMessage } from '../utils/errors'
 
 export interface SceneEditorCallbacks {
   onPost: (text: string, imageText: string, choices: string, backgroundImage?: string) => void
+  onSchedule?: (text: string, imageText: string, choices: string, publishAt: Date, backgroundImage?: string) => void
   onSceneDataChange: (data: SceneData) => void
   onCancelReply?: () => void
+  onClear?: () => void
+  getSplitSettings?: () => SplitSettings
+  onSaveInteractionDefault?: (settings: InteractionSettings) => void
+  onSaveLabelDefault?: (labels: ContentLabel[]) => void
+  fetchLinkPreview?: (url: string) => Promise<LinkPreview>
 }
 
 export class SceneEditor {
@@ -14,12 +29,20 @@ export class SceneEditor {
   private lastChoicesText = ''
   private lastBackgroundImage = ''
   private lastRenderedBackground = '' // Track what was actually rendered in preview
+  private lastPanelLayout = '' // Aspect ratios the preview was rendered with
   private previewRefreshTimer: NodeJS.Timeout | null = null
   private isGeneratingPreview = false
   private audioFile: File | null = null
   private convertedVideoBlob: Blob | null = null
   private isConvertingAudio = false
   private videoPreviewOutdated = false
+  private quoteOptions: Post[] = []
+  private imagePanels: ImagePanelSettings[] = [] // Settings per image panel, in order
+  private interactions: InteractionSettings | undefined // This post's own controls
+  private interactionDefault: InteractionSettings | undefined // The story's default
+  private labels: ContentLabel[] | undefined // This post's own content warning
+  private labelDefault: ContentLabel[] | undefined // The story's default
+  private linkThumbnail = '' // Data URL of the link card's thumbnail
   private lastVideoSettings = {
     imageText: '',
     choices: '',
@@ -29,7 +52,7 @@ export class SceneEditor {
 
   constructor(
     private callbacks: SceneEditorCallbacks,
-    private charLimit: number = 300
+    private textLimit: TextLimit = POST_TEXT_LIMIT
   ) {
     this.imageGenerator = new ImageGeneratorService()
   }
@@ -67,6 +90,7 @@ export class SceneEditor {
     if (imageText) {
       imageText.addEventListener('input', () => {
         this.updateCharCounter()
+        this.renderPanelControls()
         this.callbacks.onSceneDataChange(this.getSceneData())
         this.schedulePreviewRefresh()
       })
@@ -91,11 +115,32 @@ export class SceneEditor {
       })
     }
 
+    // Schedule button
+    const scheduleButton = document.getElementById('schedule-button')
+    if (scheduleButton) {
+      scheduleButton.addEventListener('click', () => {
+        const scheduleInput = document.getElementById('schedule-time') as HTMLInputElement
+        const publishAt = new Date(scheduleInput?.value || '')
+        if (!scheduleInput?.value || isNaN(publishAt.getTime())) {
+          this.showStatus('Pick a date and time to schedule the post', 'error')
+          return
+        }
+        const data = this.getSceneData()
+        this.callbacks.onSchedule?.(data.postText, data.imageText, data.choices, publishAt, data.backgroundImage)
+      })
+    }
+
+    // Link card, content warning and reply and quote controls
+    this.attachLinkCardListeners()
+    this.attachLabelListeners()
+    this.attachInteractionListeners()
+
     // Clear editor button
     const clearEditorBtn = document.getElementById('clear-editor')
     if (clearEditorBtn) {
       clearEditorBtn.addEventListener('click', () => {
         this.clearForm()
+        this.callbacks.onClear?.()
       })
     }
 
@@ -166,11 +211,372 @@ export class SceneEditor {
   setReplyContext(_post: Post): void {
     const editorTitle = document.getElementById('editor-title')
     if (editorTitle) editorTitle.textContent = 'Create Reply'
+
+    const replyNote = document.getElementById('interaction-reply-note')
+    if (replyNote) replyNote.style.display = 'block'
   }
 
   clearReplyContext(): void {
     const editorTitle = document.getElementById('editor-title')
     if (editorTitle) editorTitle.textContent = 'Create Scene'
+
+    const replyNote = document.getElementById('interaction-reply-note')
+    if (replyNote) replyNote.style.display = 'none'
+  }
+
+  /**
+   * The story's reply and quote controls, used unless the post sets its own
+   */
+  setInteractionDefault(settings: InteractionSettings | undefined): void {
+    this.interactionDefault = settings
+    this.renderInteractionControls()
+  }
+
+  /**
+   * The reply and quote controls this post will be published with
+   */
+  getInteractions(): InteractionSettings | undefined {
+    return this.interactions ?? this.interactionDefault
+  }
+
+  /**
+   * The link card as entered, or undefined when no link is set
+   */
+  getLinkCard(): LinkCard | undefined {
+    const url = (document.getElementById('link-card-url') as HTMLInputElement)?.value.trim()
+    if (!url) return undefined
+
+    return {
+      uri: url,
+      title: (document.getElementById('link-card-title') as HTMLInputElement)?.value.trim() || '',
+      description: (document.getElementById('link-card-description') as HTMLTextAreaElement)?.value.trim() || '',
+      thumbnail: this.linkThumbnail || undefined,
+    }
+  }
+
+  private attachLinkCardListeners(): void {
+    for (const id of ['link-card-url', 'link-card-title', 'link-card-description']) {
+      document.getElementById(id)?.addEventListener('input', () => this.onLinkCardChange())
+    }
+
+    document.getElementById('fetch-link-card')?.addEventListener('click', () => this.fetchLinkCard())
+
+    const thumbInput = document.getElementById('link-card-thumb-input') as HTMLInputElement
+    document.getElementById('link-card-thumb-button')?.addEventListener('click', () => thumbInput?.click())
+    thumbInput?.addEventListener('change', async () => {
+      const file = thumbInput.files?.[0]
+      thumbInput.value = ''
+      if (!file) return
+      try {
+        this.setLinkThumbnail(await blobToDataUrl(await prepareThumbnail(file)))
+        this.onLinkCardChange()
+      } catch (error) {
+        console.error('Failed to load thumbnail:', error)
+        this.setLinkCardStatus(getErrorMessage(error, 'Could not use that image'), true)
+      }
+    })
+
+    document.getElementById('remove-link-card-thumb')?.addEventListener('click', () => {
+      this.setLinkThumbnail('')
+      this.onLinkCardChange()
+    })
+
+    document.getElementById('remove-link-card')?.addEventListener('click', () => {
+      this.loadLinkCard(undefined)
+      this.onLinkCardChange()
+    })
+  }
+
+  /**
+   * Fill in the card from the page. Uses the first link in the post text
+   * when no URL has been entered.
+   */
+  private async fetchLinkCard(): Promise<void> {
+    const urlInput = document.getElementById('link-card-url') as HTMLInputElement
+    const postText = document.getElementById('post-text') as HTMLTextAreaElement
+    const url = urlInput?.value.trim() || findFirstLink(postText?.value || '')
+    if (!url) {
+      this.setLinkCardStatus('Enter a link, or add one to the post text', true)
+      return
+    }
+    if (!this.callbacks.fetchLinkPreview) return
+
+    const button = document.getElementById('fetch-link-card') as HTMLButtonElement
+    if (button) button.disabled = true
+    this.setLinkCardStatus('Fetching preview...')
+
+    try {
+      const preview = await this.callbacks.fetchLinkPreview(url)
+      this.loadLinkCard({
+        uri: url,
+        title: preview.title,
+        description: preview.description,
+        thumbnail: preview.thumbnail ? await blobToDataUrl(preview.thumbnail) : undefined,
+      })
+      this.setLinkCardStatus(preview.thumbnail ? '✓ Preview fetched' : '✓ Preview fetched (no thumbnail found)')
+      this.onLinkCardChange()
+    } catch (error) {
+      console.error('Failed to fetch link preview:', error)
+      if (urlInput) urlInput.value = url
+      this.setLinkCardStatus(`Couldn't fetch the page (${getErrorMessage(error, String(error))}). Fill in the title and description by hand.`, true)
+      this.onLinkCardChange()
+    } finally {
+      if (button) button.disabled = false
+    }
+  }
+
+  private onLinkCardChange(): void {
+    this.renderLinkCardSummary()
+    this.callbacks.onSceneDataChange(this.getSceneData())
+    this.schedulePreviewRefresh()
+  }
+
+  private loadLinkCard(card: LinkCard | undefined): void {
+    const url = document.getElementById('link-card-url') as HTMLInputElement
+    const title = document.getElementById('link-card-title') as HTMLInputElement
+    const description = document.getElementById('link-card-description') as HTMLTextAreaElement
+
+    if (url) url.value = card?.uri || ''
+    if (title) title.value = card?.title || ''
+    if (description) description.value = card?.description || ''
+    this.setLinkThumbnail(card?.thumbnail || '')
+    this.setLinkCardStatus('')
+    this.renderLinkCardSummary()
+  }
+
+  private setLinkThumbnail(dataUrl: string): void {
+    this.linkThumbnail = dataUrl
+
+    const thumb = document.getElementById('link-card-thumb') as HTMLImageElement
+    const removeBtn = document.getElementById('remove-link-card-thumb')
+    if (thumb) {
+      thumb.src = dataUrl
+      thumb.style.display = dataUrl ? 'block' : 'none'
+    }
+    if (removeBtn) removeBtn.style.display = dataUrl ? 'inline-block' : 'none'
+  }
+
+  private setLinkCardStatus(message: string, isError = false): void {
+    const status = document.getElementById('link-card-status')
+    if (!status) return
+    // An empty message brings back the hint from the markup
+    if (status.dataset.hint === undefined) status.dataset.hint = status.textContent || ''
+    status.textContent = message || status.dataset.hint
+    status.style.color = isError ? 'var(--color-error)' : ''
+  }
+
+  private renderLinkCardSummary(): void {
+    const summary = document.getElementById('link-card-summary')
+    if (!summary) return
+    const card = this.getLinkCard()
+    summary.textContent = card ? getLinkDomain(card.uri) : 'None'
+  }
+
+  /**
+   * The card as Bluesky shows it under the post text
+   */
+  private createLinkCardPreview(card: LinkCard): HTMLElement {
+    const preview = document.createElement('div')
+    preview.className = 'link-card-preview preview-media'
+
+    if (card.thumbnail) {
+      const thumb = document.createElement('img')
+      thumb.src = card.thumbnail
+      thumb.alt = ''
+      preview.appendChild(thumb)
+    }
+
+    const body = document.createElement('div')
+    body.className = 'link-card-preview-body'
+    const domain = document.createElement('div')
+    domain.className = 'link-card-preview-domain'
+    domain.textContent = getLinkDomain(card.uri)
+    const title = document.createElement('div')
+    title.className = 'link-card-preview-title'
+    title.textContent = card.title || card.uri
+    body.append(domain, title)
+    if (card.description) {
+      const description = document.createElement('div')
+      description.className = 'link-card-preview-description'
+      description.textContent = card.description
+      body.appendChild(description)
+    }
+    preview.appendChild(body)
+
+    return preview
+  }
+
+  /**
+   * The story's content warning, used unless the post sets its own
+   */
+  setLabelDefault(labels: ContentLabel[] | undefined): void {
+    this.labelDefault = labels
+    this.renderLabelControls()
+    this.renderLabelPreview()
+  }
+
+  /**
+   * The self-labels this post will be published with
+   */
+  getLabels(): ContentLabel[] | undefined {
+    return this.labels ?? this.labelDefault
+  }
+
+  private attachLabelListeners(): void {
+    const useDefault = document.getElementById('labels-use-default') as HTMLInputElement
+    useDefault?.addEventListener('change', () => {
+      this.labels = useDefault.checked ? undefined : [...(this.labelDefault || [])]
+      this.onLabelsChange()
+    })
+
+    document.getElementById('label-options')?.addEventListener('change', () => {
+      const adult = (document.getElementById('adult-label') as HTMLSelectElement)?.value as ContentLabel | ''
+      const graphic = (document.getElementById('graphic-media-label') as HTMLInputElement)?.checked
+      const labels: ContentLabel[] = []
+      if (adult) labels.push(adult)
+      if (graphic) labels.push('graphic-media')
+      this.labels = labels
+      this.onLabelsChange()
+    })
+
+    document.getElementById('save-label-default')?.addEventListener('click', () => {
+      this.callbacks.onSaveLabelDefault?.(this.getLabels() || [])
+    })
+  }
+
+  private onLabelsChange(): void {
+    this.renderLabelControls()
+    this.renderLabelPreview()
+    this.callbacks.onSceneDataChange(this.getSceneData())
+  }
+
+  private renderLabelControls(): void {
+    const labels = this.getLabels() || []
+    const usingDefault = this.labels === undefined
+
+    const summary = document.getElementById('content-warning-summary')
+    if (summary) summary.textContent = describeLabels(labels)
+
+    const useDefault = document.getElementById('labels-use-default') as HTMLInputElement
+    if (useDefault) useDefault.checked = usingDefault
+
+    const options = document.getElementById('label-options') as HTMLFieldSetElement
+    if (options) options.disabled = usingDefault
+
+    const adult = document.getElementById('adult-label') as HTMLSelectElement
+    if (adult) adult.value = labels.find(label => label !== 'graphic-media') || ''
+
+    const graphic = document.getElementById('graphic-media-label') as HTMLInputElement
+    if (graphic) graphic.checked = labels.includes('graphic-media')
+  }
+
+  /**
+   * Cover the previewed media with the content warning, the way readers
+   * will first see the post
+   */
+  private renderLabelPreview(): void {
+    const previewContent = document.getElementById('preview-content')
+    if (!previewContent) return
+
+    previewContent.querySelector('.label-warning')?.remove()
+    const media = previewContent.querySelector('.preview-media')
+    media?.classList.remove('label-hidden')
+
+    const labels = this.getLabels()
+    const textPreview = previewContent.querySelector('.post-text-preview')
+    if (!labels?.length || (!media && !textPreview)) return
+
+    const warning = document.createElement('div')
+    warning.className = 'label-warning'
+    const text = document.createElement('span')
+    text.textContent = `⚠️ ${describeLabels(labels)}`
+    warning.appendChild(text)
+
+    if (media) {
+      media.classList.add('label-hidden')
+      const toggle = document.createElement('button')
+      toggle.type = 'button'
+      toggle.className = 'secondary-button'
+      toggle.textContent = 'Show'
+      toggle.addEventListener('click', () => {
+        const hidden = media.classList.toggle('label-hidden')
+        toggle.textContent = hidden ? 'Show' : 'Hide'
+      })
+      warning.appendChild(toggle)
+      media.before(warning)
+    } else {
+      // Without media the label covers the whole post
+      previewContent.prepend(warning)
+    }
+  }
+
+  private attachInteractionListeners(): void {
+    const useDefault = document.getElementById('interaction-use-default') as HTMLInputElement
+    useDefault?.addEventListener('change', () => {
+      // Start from the default when choosing this post's own controls
+      this.interactions = useDefault.checked ? undefined : { ...this.interactionDefault }
+      this.renderInteractionControls()
+      this.callbacks.onSceneDataChange(this.getSceneData())
+    })
+
+    const options = document.getElementById('interaction-options')
+    options?.addEventListener('change', () => this.readInteractionControls())
+    options?.addEventListener('input', (e) => {
+      if ((e.target as HTMLElement).id === 'reply-list-uri') this.readInteractionControls()
+    })
+
+    document.getElementById('save-interaction-default')?.addEventListener('click', () => {
+      const settings = this.getInteractions() || {}
+      this.callbacks.onSaveInteractionDefault?.(settings)
+    })
+  }
+
+  private readInteractionControls(): void {
+    const limited = (document.querySelector('input[name="reply-audience"]:checked') as HTMLInputElement)?.value === 'limited'
+    const rules = Array.from(document.querySelectorAll<HTMLInputElement>('input[name="reply-rule"]:checked'))
+      .map(input => input.value as ReplyRule)
+    const listUri = (document.getElementById('reply-list-uri') as HTMLInputElement)?.value.trim()
+    const disableQuotes = (document.getElementById('disable-quotes') as HTMLInputElement)?.checked
+
+    this.interactions = {
+      replyRules: limited ? rules : undefined,
+      replyListUri: listUri || undefined,
+      disableQuotes: disableQuotes || undefined,
+    }
+    this.renderInteractionControls()
+    this.callbacks.onSceneDataChange(this.getSceneData())
+  }
+
+  private renderInteractionControls(): void {
+    const settings = this.getInteractions()
+    const usingDefault = this.interactions === undefined
+
+    const summary = document.getElementById('interaction-summary')
+    if (summary) summary.textContent = describeInteractions(settings)
+
+    const useDefault = document.getElementById('interaction-use-default') as HTMLInputElement
+    if (useDefault) useDefault.checked = usingDefault
+
+    const options = document.getElementById('interaction-options') as HTMLFieldSetElement
+    if (options) options.disabled = usingDefault
+
+    const audience = settings?.replyRules ? 'limited' : 'anyone'
+    document.querySelectorAll<HTMLInputElement>('input[name="reply-audience"]').forEach(input => {
+      input.checked = input.value === audience
+    })
+    document.querySelectorAll<HTMLInputElement>('input[name="reply-rule"]').forEach(input => {
+      input.checked = !!settings?.replyRules?.includes(input.value as ReplyRule)
+      input.disabled = !settings?.replyRules
+    })
+
+    const listInput = document.getElementById('reply-list-uri') as HTMLInputElement
+    if (listInput) {
+      if (document.activeElement !== listInput) listInput.value = settings?.replyListUri || ''
+      listInput.style.display = settings?.replyRules?.includes('list') ? '' : 'none'
+    }
+
+    const disableQuotes = document.getElementById('disable-quotes') as HTMLInputElement
+    if (disableQuotes) disableQuotes.checked = !!settings?.disableQuotes
   }
 
   clearForm(): void {
@@ -182,20 +588,45 @@ export class SceneEditor {
     if (imageText) imageText.value = ''
     if (choices) choices.value = ''
 
+    const quoteSelect = document.getElementById('quote-select') as HTMLSelectElement
+    if (quoteSelect) quoteSelect.value = ''
+
     // Clear background image
     this.removeBackgroundImage()
 
     // Clear audio file
     this.removeAudioFile()
 
+    this.imagePanels = []
+    this.renderPanelControls()
+
+    this.interactions = undefined
+    this.renderInteractionControls()
+
+    this.labels = undefined
+    this.renderLabelControls()
+
+    this.loadLinkCard(undefined)
+
     // Reset preview tracking
     this.lastImageText = ''
     this.lastChoicesText = ''
     this.lastRenderedBackground = ''
+    this.lastPanelLayout = ''
 
     this.updateCharCounter()
   }
 
+  loadScene(data: SceneData, audioFile: File | null = null): void {
+    this.clearForm()
+    this.loadSceneData(data)
+    if (audioFile) {
+      this.attachAudioFile(audioFile)
+    }
+    this.callbacks.onSceneDataChange(this.getSceneData())
+    this.schedulePreviewRefresh()
+  }
+
   private loadSceneData(data: SceneData): void {
     const postText = document.getElementById('post-text') as HTMLTextAreaElement
     const imageText = document.getElementById('image-text') as HTMLTextAreaElement
@@ -205,6 +636,17 @@ export class SceneEditor {
     if (imageText) imageText.value = data.imageText || ''
     if (choices) choices.value = data.choices || ''
 
+    this.imagePanels = (data.imagePanels || []).map(panel => ({ ...panel }))
+    this.renderPanelControls()
+
+    this.interactions = data.interactions ? { ...data.interactions } : undefined
+    this.renderInteractionControls()
+
+    this.labels = data.labels ? [...data.labels] : undefined
+    this.renderLabelControls()
+
+    this.loadLinkCard(data.linkCard)
+
     // Load background image if present
     if (data.backgroundImage) {
       this.lastBackgroundImage = data.backgroundImage
@@ -224,7 +666,7 @@ export class SceneEditor {
     this.updateCharCounter()
   }
 
-  private getSceneData(): SceneData {
+  getSceneData(): SceneData {
     const postText = document.getElementById('post-text') as HTMLTextAreaElement
     const imageText = document.getElementById('image-text') as HTMLTextAreaElement
     const choices = document.getElementById('choices') as HTMLTextAreaElement
@@ -236,37 +678,257 @@ export class SceneEditor {
       choices: choices?.value || '',
       backgroundImage: this.lastBackgroundImage || undefined,
       backgroundImageName: nameSpan?.textContent !== 'No image selected' ? nameSpan?.textContent || undefined : undefined,
+      imagePanels: this.imagePanels.length ? this.imagePanels.map(panel => ({ ...panel })) : undefined,
+      interactions: this.interactions ? { ...this.interactions } : undefined,
+      labels: this.labels ? [...this.labels] : undefined,
+      linkCard: this.getLinkCard(),
     }
   }
 
-  private updateCharCounter(): void {
-    const postText = document.getElementById('post-text') as HTMLTextAreaElement
+  /**
+   * One row per image panel: alt text, aspect ratio and reordering
+   */
+  private renderPanelControls(): void {
+    const container = document.getElementById('image-panels')
     const imageText = document.getElementById('image-text') as HTMLTextAreaElement
-    const choices = document.getElementById('choices') as HTMLTextAreaElement
-    const counter = document.getElementById('char-counter')
+    if (!container || !imageText) return
+
+    const panels = splitPanels(imageText.value)
+    container.innerHTML = ''
+    if (panels.length === 0) return
+
+    if (panels.length > MAX_IMAGE_PANELS) {
+      const warning = document.createElement('div')
+      warning.className = 'image-panels-warning'
+      warning.textContent = `${panels.length} panels: Bluesky allows at most ${MAX_IMAGE_PANELS} images per post`
+      container.appendChild(warning)
+    }
+
+    panels.forEach((panel, index) => {
+      const settings = this.imagePanels[index] || {}
+
+      const row = document.createElement('div')
+      row.className = 'image-panel-row'
 
-    if (postText && counter) {
-      const postLength = postText.value.length
-      counter.textContent = `${postLength} / ${this.charLimit}`
+      const header = document.createElement('div')
+      header.className = 'image-panel-header'
 
-      // Remove previous classes
-      counter.classList.remove('warning', 'error')
+      const label = document.createElement('strong')
+      label.textContent = `Panel ${index + 1}`
+      header.appendChild(label)
 
-      // Add appropriate class based on length
-      if (postLength > this.charLimit) {
-        counter.classList.add('error')
-      } else if (postLength > this.charLimit * 0.9) {
-        counter.classList.add('warning')
+      const excerpt = document.createElement('span')
+      excerpt.className = 'image-panel-excerpt'
+      const plain = stripMarkdown(panel).replace(/\s+/g, ' ')
+      excerpt.textContent = plain.length > 40 ? plain.slice(0, 40) + '…' : plain
+      header.appendChild(excerpt)
+
+      const aspectSelect = document.createElement('select')
+      aspectSelect.title = 'Aspect ratio'
+      PANEL_ASPECT_RATIOS.forEach(option => {
+        const optionEl = document.createElement('option')
+        optionEl.value = option.value
+        optionEl.textContent = option.label
+        aspectSelect.appendChild(optionEl)
+      })
+      aspectSelect.value = settings.aspectRatio || 'auto'
+      aspectSelect.addEventListener('change', () => {
+        this.updatePanelSettings(index, { aspectRatio: aspectSelect.value as PanelAspectRatio })
+        this.schedulePreviewRefresh()
+      })
+      header.appendChild(aspectSelect)
+
+      const upButton = document.createElement('button')
+      upButton.type = 'button'
+      upButton.className = 'secondary-button'
+      upButton.textContent = '↑'
+      upButton.title = 'Move panel up'
+      upButton.disabled = index === 0
+      upButton.addEventListener('click', () => this.movePanel(index, index - 1))
+      header.appendChild(upButton)
+
+      const downButton = document.createElement('button')
+      downButton.type = 'button'
+      downButton.className = 'secondary-button'
+      downButton.textContent = '↓'
+      downButton.title = 'Move panel down'
+      downButton.disabled = index === panels.length - 1
+      downButton.addEventListener('click', () => this.movePanel(index, index + 1))
+      header.appendChild(downButton)
+
+      row.appendChild(header)
+
+      const altInput = document.createElement('textarea')
+      altInput.rows = 2
+      altInput.placeholder = 'Alt text (defaults to the panel text)'
+      altInput.value = settings.alt || ''
+      const checkAltLength = () => {
+        const overLimit = describeOverLimit(altInput.value.trim(), IMAGE_ALT_LIMIT, 'Alt text')
+        altInput.classList.toggle('over-limit', !!overLimit)
+        altInput.title = overLimit || ''
       }
+      checkAltLength()
+      altInput.addEventListener('input', () => {
+        checkAltLength()
+        this.updatePanelSettings(index, { alt: altInput.value || undefined })
+      })
+      row.appendChild(altInput)
+
+      container.appendChild(row)
+    })
+  }
+
+  private updatePanelSettings(index: number, changes: ImagePanelSettings): void {
+    while (this.imagePanels.length <= index) {
+      this.imagePanels.push({})
     }
+    this.imagePanels[index] = { ...this.imagePanels[index], ...changes }
+    this.callbacks.onSceneDataChange(this.getSceneData())
+  }
 
-    // Update post count if needed for text-only posts
-    if (postText && imageText && choices) {
-      const postCharCount = document.getElementById('post-char-count')
-      if (postCharCount) {
-        postCharCount.textContent = String(postText.value.length)
-      }
+  /**
+   * Move a panel in the image text, along with its settings
+   */
+  private movePanel(from: number, to: number): void {
+    const imageText = document.getElementById('image-text') as HTMLTextAreaElement
+    if (!imageText) return
+
+    const panels = splitPanels(imageText.value)
+    if (to < 0 || to >= panels.length) return
+
+    while (this.imagePanels.length < panels.length) {
+      this.imagePanels.push({})
+    }
+    panels.splice(to, 0, ...panels.splice(from, 1))
+    this.imagePanels.splice(to, 0, ...this.imagePanels.splice(from, 1))
+
+    imageText.value = joinPanels(panels)
+    this.renderPanelControls()
+    this.updateCharCounter()
+    this.callbacks.onSceneDataChange(this.getSceneData())
+    this.schedulePreviewRefresh()
+  }
+
+  /**
+   * Offer these posts in the quote picker. The current pick stays selected
+   * while it is still among them.
+   */
+  setQuoteOptions(posts: Post[]): void {
+    const quoteGroup = document.getElementById('quote-group')
+    const quoteSelect = document.getElementById('quote-select') as HTMLSelectElement
+    if (!quoteSelect) return
+
+    const selectedUri = quoteSelect.value
+    this.quoteOptions = posts
+
+    quoteSelect.innerHTML = '<option value="">No quote</option>'
+    posts.forEach(post => {
+      const text = post.record.text.replace(/\s+/g, ' ').trim()
+      const option = document.createElement('option')
+      option.value = post.uri
+      option.textContent = `@${post.author.handle}: ${text.length > 60 ? text.slice(0, 60) + '…' : text || '(no text)'}`
+      quoteSelect.appendChild(option)
+    })
+    quoteSelect.value = posts.some(post => post.uri === selectedUri) ? selectedUri : ''
+
+    if (quoteGroup) quoteGroup.style.display = posts.length > 0 ? '' : 'none'
+  }
+
+  getQuote(): Post | null {
+    const quoteSelect = document.getElementById('quote-select') as HTMLSelectElement
+    return this.quoteOptions.find(post => post.uri === quoteSelect?.value) || null
+  }
+
+  /**
+   * Re-check the post text, e.g. after the split settings change
+   */
+  refreshTextPreview(): void {
+    this.updateCharCounter()
+    this.schedulePreviewRefresh()
+  }
+
+  /**
+   * The post text that will actually be sent, split into parts if needed
+   */
+  private getTextPlan(): SceneTextPlan {
+    const data = this.getSceneData()
+    const split = this.callbacks.getSplitSettings?.() || { enabled: false, numbering: 'slash' }
+    return planSceneText(data.postText, data.imageText, data.choices, !!this.audioFile, this.textLimit, split)
+  }
+
+  /**
+   * Count the final post text, including choices appended to a text-only
+   * scene, in graphemes and (near the limit) bytes
+   */
+  private updateCharCounter(): void {
+    const counter = document.getElementById('char-counter')
+    if (!counter) return
+
+    const data = this.getSceneData()
+    const text = buildSceneText(data.postText, data.imageText, data.choices, !!this.audioFile)
+    const { graphemes, bytes } = measureText(text)
+    const plan = this.getTextPlan()
+    const { maxGraphemes, maxBytes } = this.textLimit
+
+    let label = `${graphemes} / ${maxGraphemes}`
+    const nearByteLimit = maxBytes !== undefined && bytes > maxBytes * 0.9
+    if (nearByteLimit) {
+      label += ` • ${bytes} / ${maxBytes} bytes`
+    }
+    if (plan.parts.length > 1) {
+      label += ` • ${plan.parts.length} posts`
+    }
+    counter.textContent = label
+    counter.title = plan.error || ''
+
+    // Remove previous classes
+    counter.classList.remove('warning', 'error')
+
+    // Add appropriate class based on length
+    if (plan.error) {
+      counter.classList.add('error')
+    } else if (plan.parts.length === 1 && (graphemes > maxGraphemes * 0.9 || nearByteLimit)) {
+      counter.classList.add('warning')
+    }
+  }
+
+  /**
+   * The post text exactly as it will be posted, one block per part
+   */
+  private createTextPreview(): HTMLElement {
+    const plan = this.getTextPlan()
+    const wrapper = document.createElement('div')
+    wrapper.className = 'post-text-preview'
+
+    plan.parts.forEach((part, index) => {
+      if (!part) return
+
+      const partDiv = document.createElement('div')
+      partDiv.className = 'post-text-part'
+
+      const textDiv = document.createElement('div')
+      textDiv.className = 'post-text-part-body'
+      textDiv.textContent = part
+      partDiv.appendChild(textDiv)
+
+      const { graphemes } = measureText(part)
+      const meta = document.createElement('div')
+      meta.className = 'post-text-part-meta'
+      const position = plan.parts.length > 1 ? `Post ${index + 1} of ${plan.parts.length} • ` : ''
+      meta.textContent = `📝 ${position}${graphemes} / ${this.textLimit.maxGraphemes} chars`
+      partDiv.appendChild(meta)
+
+      wrapper.appendChild(partDiv)
+    })
+
+    if (plan.error) {
+      const error = document.createElement('div')
+      error.className = 'post-text-error'
+      error.textContent = `⚠️ ${plan.error}`
+      wrapper.appendChild(error)
     }
+
+    return wrapper
   }
 
   private combineSceneAndChoices(sceneText: string, choicesText: string): string {
@@ -333,13 +995,8 @@ export class SceneEditor {
     if (this.audioFile) {
       previewContent.innerHTML = ''
 
-      // Add post text if present
-      if (postValue) {
-        const textDiv = document.createElement('div')
-        textDiv.style.cssText = 'white-space: pre-wrap; font-family: system-ui; line-height: 1.5; margin-bottom: 1rem;'
-        textDiv.textContent = postValue
-        previewContent.appendChild(textDiv)
-      }
+      // Add the post text as it will be posted
+      previewContent.appendChild(this.createTextPreview())
 
       // Show video if we have one and it's not outdated
       if (this.convertedVideoBlob && !this.videoPreviewOutdated) {
@@ -349,6 +1006,7 @@ export class SceneEditor {
         const video = document.createElement('video')
         video.src = videoUrl
         video.controls = true
+        video.className = 'preview-media'
         video.style.cssText = 'max-width: 100%; border-radius: 8px; display: block;'
         previewContent.appendChild(video)
 
@@ -419,6 +1077,7 @@ export class SceneEditor {
           statusDiv.textContent = ''
         }
       }
+      this.renderLabelPreview()
       return
     }
 
@@ -435,31 +1094,6 @@ export class SceneEditor {
       return
     }
 
-    // Build preview with both post text and image
-    let previewHtml = ''
-
-    // Add post text if present
-    if (postValue) {
-      const combinedText = this.combineSceneAndChoices(postValue, choicesValue)
-      previewHtml += `<div style="white-space: pre-wrap; font-family: system-ui; line-height: 1.5; margin-bottom: 1rem;">${this.escapeHtml(combinedText)}</div>`
-
-      // Add stats for text-only posts
-      if (!imageValue) {
-        const charWarn = combinedText.length > 300 ? ' ⚠️ Over limit!' :
-                        combinedText.length > 270 ? ' ⚠️' : ''
-        previewHtml += `
-          <div style="
-            margin-top: 1rem;
-            padding-top: 1rem;
-            border-top: 1px solid var(--color-border);
-            font-size: 0.85rem;
-            color: var(--color-text-secondary);
-          ">
-            <div>📝 Text post: <strong>${combinedText.length} chars${charWarn}</strong></div>
-          </div>
-        `
-      }
-    }
 
     // Check if we need to regenerate the image preview
     const choicesList = choicesValue
@@ -469,11 +1103,14 @@ export class SceneEditor {
 
     const backgroundImage = this.lastBackgroundImage
 
+    const panelLayout = this.imagePanels.map(panel => panel.aspectRatio || 'auto').join(',')
+
     // Check if any image-related content has changed
     const needsImageRegeneration = imageValue && (
       imageValue !== this.lastImageText ||
       choicesValue !== this.lastChoicesText ||
-      backgroundImage !== this.lastRenderedBackground
+      backgroundImage !== this.lastRenderedBackground ||
+      panelLayout !== this.lastPanelLayout
     )
 
     if (needsImageRegeneration) {
@@ -482,10 +1119,26 @@ export class SceneEditor {
       this.lastImageText = imageValue
       this.lastChoicesText = choicesValue
       this.lastRenderedBackground = backgroundImage
-    } else if (!imageValue && previewHtml) {
-      // Text-only preview
-      previewContent.innerHTML = previewHtml
+      this.lastPanelLayout = panelLayout
+    } else if (!imageValue) {
+      // Text-only preview, with the choices appended as they will be posted
+      previewContent.innerHTML = ''
+      previewContent.appendChild(this.createTextPreview())
+      const linkCard = this.getLinkCard()
+      if (linkCard) {
+        previewContent.appendChild(this.createLinkCardPreview(linkCard))
+      }
+    } else {
+      // The image is unchanged; only the text above it may have changed
+      const textPreview = this.createTextPreview()
+      const existing = previewContent.querySelector('.post-text-preview')
+      if (existing) {
+        existing.replaceWith(textPreview)
+      } else {
+        previewContent.prepend(textPreview)
+      }
     }
+    this.renderLabelPreview()
 
     if (statusDiv) {
       statusDiv.textContent = '✓ Updated'
@@ -502,7 +1155,6 @@ export class SceneEditor {
 
     const previewContent = document.getElementById('preview-content')
     const statusDiv = document.getElementById('preview-status')
-    const postText = document.getElementById('post-text') as HTMLTextAreaElement
 
     if (!previewContent) {
       this.isGeneratingPreview = false
@@ -515,34 +1167,55 @@ export class SceneEditor {
         statusDiv.style.color = '#1976D2'
       }
 
-      // Use the same image generation as posting to ensure consistency
-      const imageResult = await this.imageGenerator.generateSceneImage(
-        imageText,
-        choices,
-        this.lastBackgroundImage || undefined
-      )
-
-      // Convert blob to data URL for preview
-      const reader = new FileReader()
-      const dataUrl = await new Promise<string>((resolve) => {
-        reader.onloadend = () => resolve(reader.result as string)
-        reader.readAsDataURL(imageResult.blob)
-      })
-
-      const previewElement = document.createElement('img')
-      previewElement.src = dataUrl
-      previewElement.style.cssText = 'max-width: 100%; border-radius: 8px; display: block;'
+      // Use the same image generation as posting to ensure consistency.
+      // Only the first four panels can be posted, so only those are shown.
+      const panels = splitPanels(imageText).slice(0, MAX_IMAGE_PANELS)
+      const previewElement = document.createElement('div')
+      previewElement.className = panels.length > 1 ? 'image-panel-preview preview-media multiple' : 'image-panel-preview preview-media'
+      let totalSize = 0
+      let largestSize = 0
+      const altStats: string[] = []
+
+      for (const [index, panel] of panels.entries()) {
+        const isLast = index === panels.length - 1
+        const settings = this.imagePanels[index] || {}
+        const imageResult = await this.imageGenerator.generateSceneImage(
+          panel,
+          isLast ? choices : [],
+          this.lastBackgroundImage || undefined,
+          settings.aspectRatio
+        )
+        totalSize += imageResult.blob.size
+        largestSize = Math.max(largestSize, imageResult.blob.size)
+
+        // Convert blob to data URL for preview
+        const reader = new FileReader()
+        const dataUrl = await new Promise<string>((resolve) => {
+          reader.onloadend = () => resolve(reader.result as string)
+          reader.readAsDataURL(imageResult.blob)
+        })
+
+        const image = document.createElement('img')
+        image.src = dataUrl
+        image.alt = `Panel ${index + 1}`
+        previewElement.appendChild(image)
+
+        // Written alt text over the limit blocks posting; generated alt text is trimmed
+        const written = settings.alt?.trim()
+        const altText = written || this.combineSceneAndChoices(panel, isLast ? choices.join('\n') : '')
+        const altGraphemes = measureText(altText).graphemes
+        if (!describeOverLimit(altText, IMAGE_ALT_LIMIT)) {
+          altStats.push(String(altGraphemes))
+        } else {
+          altStats.push(written ? `${altGraphemes} ⚠️ Over limit!` : `${IMAGE_ALT_LIMIT.maxGraphemes} (trimmed)`)
+        }
+      }
 
       // Clear and rebuild preview with both text and image
       previewContent.innerHTML = ''
 
-      // Add post text first if present
-      if (postText?.value) {
-        const textDiv = document.createElement('div')
-        textDiv.style.cssText = 'white-space: pre-wrap; font-family: system-ui; line-height: 1.5; margin-bottom: 1rem;'
-        textDiv.textContent = postText.value
-        previewContent.appendChild(textDiv)
-      }
+      // Add the post text first, as it will be posted
+      previewContent.appendChild(this.createTextPreview())
 
       // Then add the image
       previewContent.appendChild(previewElement)
@@ -558,25 +1231,21 @@ export class SceneEditor {
       `
 
       // Calculate stats
-      const imageSizeMB = (imageResult.blob.size / (1024 * 1024)).toFixed(2)
-      const imageSizeKB = (imageResult.blob.size / 1024).toFixed(0)
-      const sizeDisplay = imageResult.blob.size > 1024 * 1024
+      const imageSizeMB = (totalSize / (1024 * 1024)).toFixed(2)
+      const imageSizeKB = (totalSize / 1024).toFixed(0)
+      const sizeDisplay = totalSize > 1024 * 1024
         ? `${imageSizeMB} MB`
         : `${imageSizeKB} KB`
 
-      const altText = this.combineSceneAndChoices(imageText, choices.join('\n'))
-      const plainTextChars = postText?.value.length || 0
-      const altTextChars = altText.length
+      const altTextChars = altStats.join(' / ')
 
-      // Check if sizes are concerning
-      const sizeWarning = imageResult.blob.size > 900 * 1024 ? ' ⚠️' : ''
-      const textWarning = plainTextChars > 300 ? ' ⚠️ Over limit!' :
-                         plainTextChars > 270 ? ' ⚠️' : ''
+      // Check if sizes are concerning (the limit applies to each image)
+      const sizeWarning = largestSize > 900 * 1024 ? ' ⚠️' : ''
+      const imageLabel = panels.length > 1 ? `${panels.length} JPEGs` : 'JPEG'
 
       statsDiv.innerHTML = `
         <div style="display: flex; gap: 1.5rem; flex-wrap: wrap;">
-          <div>📸 Image: <strong>JPEG, ${sizeDisplay}${sizeWarning}</strong></div>
-          <div>📝 Post text: <strong>${plainTextChars} chars${textWarning}</strong></div>
+          <div>📸 Image: <strong>${imageLabel}, ${sizeDisplay}${sizeWarning}</strong></div>
           <div>🔤 Alt text: <strong>${altTextChars} chars</strong></div>
         </div>
       `
@@ -598,12 +1267,6 @@ export class SceneEditor {
     }
   }
 
-  private escapeHtml(text: string): string {
-    const div = document.createElement('div')
-    div.textContent = text
-    return div.innerHTML
-  }
-
   private async handleBackgroundImageUpload(file: File): Promise<void> {
     // Check file size (recommend max 1MB)
     const maxSize = 1024 * 1024 // 1MB
@@ -667,9 +1330,13 @@ export class SceneEditor {
 
   setPostButtonState(disabled: boolean): void {
     const postButton = document.getElementById('post-button') as HTMLButtonElement
+    const scheduleButton = document.getElementById('schedule-button') as HTMLButtonElement
     if (postButton) {
       postButton.disabled = disabled
     }
+    if (scheduleButton) {
+      scheduleButton.disabled = disabled
+    }
   }
 
   showStatus(message: string, type: 'success' | 'error' | 'info'): void {
@@ -696,6 +1363,11 @@ export class SceneEditor {
       return
     }
 
+    this.attachAudioFile(file)
+    this.callbacks.onSceneDataChange(this.getSceneData())
+  }
+
+  private attachAudioFile(file: File): void {
     // Update UI
     const nameSpan = document.getElementById('audio-file-name')
     const removeBtn = document.getElementById('remove-audio-button')
@@ -711,9 +1383,8 @@ export class SceneEditor {
     this.videoPreviewOutdated = true
 
     // Update preview to show "Generate video" button
+    this.updateCharCounter()
     this.schedulePreviewRefresh()
-
-    this.callbacks.onSceneDataChange(this.getSceneData())
   }
 
   private removeAudioFile(): void {
@@ -731,6 +1402,7 @@ export class SceneEditor {
     this.convertedVideoBlob = null
 
     // Update preview
+    this.updateCharCounter()
     this.schedulePreviewRefresh()
     this.callbacks.onSceneDataChange(this.getSceneData())
   }
@@ -909,9 +1581,9 @@ export class SceneEditor {
       // Update preview
       this.schedulePreviewRefresh()
 
-    } catch (error: any) {
+    } catch (error) {
       console.error('Failed to convert audio to video:', error)
-      const errorMessage = error?.message || 'Unknown error'
+      const errorMessage = getErrorMessage(error, 'Unknown error')
 
       // Show error in preview pane
       if (previewContent) {
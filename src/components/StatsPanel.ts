@@ -0,0 +1,153 @@
+import { EngagementStats, REPLY_WINDOWS } from '../utils/engagementStats'
+
+export interface StatsPanelCallbacks {
+  onOpen: () => void // Also used to refresh
+  onExport: () => void
+  onSceneSelect?: (uri: string) => void
+}
+
+function formatRate(value: number): string {
+  return value >= 10 ? value.toFixed(0) : value.toFixed(1)
+}
+
+export class StatsPanel {
+  constructor(
+    private callbacks: StatsPanelCallbacks
+  ) {}
+
+  initialize(): void {
+    document.getElementById('stats-button')?.addEventListener('click', () => this.callbacks.onOpen())
+    document.getElementById('refresh-stats')?.addEventListener('click', () => this.callbacks.onOpen())
+    document.getElementById('export-stats')?.addEventListener('click', () => this.callbacks.onExport())
+    document.getElementById('close-stats')?.addEventListener('click', () => this.hide())
+  }
+
+  setLoading(message: string): void {
+    const section = document.getElementById('stats-section')
+    const content = document.getElementById('stats-content')
+    if (!section || !content) return
+
+    section.style.display = 'block'
+    content.innerHTML = `<div class="vote-tally-empty">⏳ ${message}</div>`
+  }
+
+  showError(message: string): void {
+    const section = document.getElementById('stats-section')
+    const content = document.getElementById('stats-content')
+    if (!section || !content) return
+
+    section.style.display = 'block'
+    content.innerHTML = ''
+    const errorDiv = document.createElement('div')
+    errorDiv.className = 'status error'
+    errorDiv.textContent = message
+    content.appendChild(errorDiv)
+  }
+
+  render(stats: EngagementStats): void {
+    const section = document.getElementById('stats-section')
+    const content = document.getElementById('stats-content')
+    if (!section || !content) return
+
+    section.style.display = 'block'
+    content.innerHTML = ''
+
+    const { totals } = stats
+    const summary = document.createElement('div')
+    summary.className = 'stats-summary'
+    summary.textContent = `${stats.scenes.length} scene${stats.scenes.length === 1 ? '' : 's'} • ❤️ ${totals.likes} • 🔄 ${totals.reposts} • ${totals.quotes} quotes • ` +
+      `${totals.replies} reader replies from ${totals.uniqueRepliers} reader${totals.uniqueRepliers === 1 ? '' : 's'}`
+    content.appendChild(summary)
+
+    content.appendChild(this.createTable(
+      'Scenes',
+      ['Scene', '❤️', '🔄', 'Quotes', 'Replies', 'Repliers', ...REPLY_WINDOWS.map(window => `≤ ${window.label}`), 'Per hour'],
+      stats.scenes.map(scene => ({
+        label: scene.label,
+        title: `Posted ${new Date(scene.postedAt).toLocaleString()}`,
+        indent: scene.depth,
+        uri: scene.uri,
+        values: [
+          scene.likes, scene.reposts, scene.quotes, scene.replies, scene.uniqueRepliers,
+          ...scene.repliesWithin, formatRate(scene.repliesPerHour),
+        ],
+      }))
+    ))
+
+    content.appendChild(this.createTable(
+      'Branches',
+      ['Ends at', 'Scenes', '❤️', '🔄', 'Quotes', 'Replies', 'Repliers', '❤️ per scene'],
+      stats.branches.map(branch => ({
+        label: branch.label,
+        title: `${branch.scenes} scenes from the start of the story`,
+        indent: 0,
+        uri: branch.sceneUris[branch.sceneUris.length - 1],
+        values: [
+          branch.scenes, branch.likes, branch.reposts, branch.quotes, branch.replies, branch.uniqueRepliers,
+          formatRate(branch.likesPerScene),
+        ],
+      }))
+    ))
+
+    const note = document.createElement('div')
+    note.className = 'vote-tally-totals'
+    note.textContent = `Replies count reader comments under each scene until the next scene. Updated ${new Date(stats.generatedAt).toLocaleTimeString()}.`
+    content.appendChild(note)
+  }
+
+  private createTable(
+    title: string,
+    columns: string[],
+    rows: { label: string; title: string; indent: number; uri: string; values: (string | number)[] }[]
+  ): HTMLElement {
+    const wrapper = document.createElement('div')
+    wrapper.className = 'stats-table-wrapper'
+
+    const heading = document.createElement('h4')
+    heading.textContent = title
+    wrapper.appendChild(heading)
+
+    const table = document.createElement('table')
+    table.className = 'stats-table'
+
+    const headRow = document.createElement('tr')
+    columns.forEach(column => {
+      const th = document.createElement('th')
+      th.textContent = column
+      headRow.appendChild(th)
+    })
+    table.createTHead().appendChild(headRow)
+
+    const body = table.createTBody()
+    rows.forEach(row => {
+      const tr = document.createElement('tr')
+      tr.title = row.title
+
+      const labelCell = document.createElement('td')
+      labelCell.className = 'stats-label'
+      labelCell.textContent = row.label
+      labelCell.style.paddingLeft = `${0.5 + Math.min(row.indent, 6) * 0.75}rem`
+      tr.appendChild(labelCell)
+
+      row.values.forEach(value => {
+        const td = document.createElement('td')
+        td.textContent = String(value)
+        tr.appendChild(td)
+      })
+
+      if (this.callbacks.onSceneSelect) {
+        tr.style.cursor = 'pointer'
+        tr.addEventListener('click', () => this.callbacks.onSceneSelect?.(row.uri))
+      }
+      body.appendChild(tr)
+    })
+
+    wrapper.appendChild(table)
+    return wrapper
+  }
+
+  hide(): void {
+    const section = document.getElementById('stats-section')
+    if (section) section.style.display = 'none'
+  }
+}
@@ -0,0 +1,288 @@
+import { SceneData, Story, StoryNode } from '../types'
+import {
+  addBranch,
+  addScene,
+  getDetachedNodes,
+  getIncomingEdge,
+  getNode,
+  getOutgoingEdges,
+  removeScene,
+  updateScene,
+} from '../utils/storyGraph'
+import { parseChoices } from '../utils/voteTally'
+
+export interface StoryPlannerCallbacks {
+  onStoryChange: (story: Story) => void
+  onStorySelect: (storyId: string | null) => void
+  onStoryCreate: (title: string) => void
+  onStoryDelete: (storyId: string) => void
+  onStoryExport: (storyId: string) => void
+  onStoryImport: (file: File) => void
+  onLoadScene: (node: StoryNode) => void
+  getEditorScene: () => SceneData
+}
+
+export class StoryPlanner {
+  private stories: Story[] = []
+  private activeStory: Story | null = null
+  private activeNodeId: string | null = null
+
+  constructor(
+    private callbacks: StoryPlannerCallbacks
+  ) {}
+
+  initialize(): void {
+    const storySelect = document.getElementById('story-select') as HTMLSelectElement
+    storySelect?.addEventListener('change', () => {
+      this.callbacks.onStorySelect(storySelect.value || null)
+    })
+
+    document.getElementById('new-story-button')?.addEventListener('click', () => {
+      const title = prompt('Story title:')?.trim()
+      if (title) {
+        this.callbacks.onStoryCreate(title)
+      }
+    })
+
+    document.getElementById('rename-story-button')?.addEventListener('click', () => {
+      if (!this.activeStory) return
+      const title = prompt('Rename story:', this.activeStory.title)?.trim()
+      if (title) {
+        this.activeStory.title = title
+        this.commit()
+      }
+    })
+
+    document.getElementById('delete-story-button')?.addEventListener('click', () => {
+      if (!this.activeStory) return
+      if (confirm(`Delete the story "${this.activeStory.title}" and all its planned scenes?`)) {
+        this.callbacks.onStoryDelete(this.activeStory.id)
+      }
+    })
+
+    document.getElementById('export-story-button')?.addEventListener('click', () => {
+      if (this.activeStory) {
+        this.callbacks.onStoryExport(this.activeStory.id)
+      }
+    })
+
+    const importInput = document.getElementById('import-story-input') as HTMLInputElement
+    document.getElementById('import-story-button')?.addEventListener('click', () => importInput?.click())
+    importInput?.addEventListener('change', () => {
+      const file = importInput.files?.[0]
+      if (file) {
+        this.callbacks.onStoryImport(file)
+      }
+      importInput.value = ''
+    })
+
+    document.getElementById('save-scene-to-story')?.addEventListener('click', () => {
+      this.saveEditorAsScene()
+    })
+  }
+
+  render(stories: Story[], activeStory: Story | null, activeNodeId: string | null): void {
+    this.stories = stories
+    this.activeStory = activeStory
+    this.activeNodeId = activeNodeId
+
+    this.renderStorySelect()
+    this.renderGraph()
+  }
+
+  private renderStorySelect(): void {
+    const storySelect = document.getElementById('story-select') as HTMLSelectElement
+    if (!storySelect) return
+
+    storySelect.innerHTML = ''
+    const noneOption = document.createElement('option')
+    noneOption.value = ''
+    noneOption.textContent = this.stories.length > 0 ? '— No story —' : '— No stories yet —'
+    storySelect.appendChild(noneOption)
+
+    this.stories.forEach(story => {
+      const option = document.createElement('option')
+      option.value = story.id
+      option.textContent = story.title
+      storySelect.appendChild(option)
+    })
+    storySelect.value = this.activeStory?.id || ''
+
+    const hasStory = !!this.activeStory
+    const renameBtn = document.getElementById('rename-story-button')
+    const deleteBtn = document.getElementById('delete-story-button')
+    const exportBtn = document.getElementById('export-story-button')
+    const saveSceneBtn = document.getElementById('save-scene-to-story')
+    if (renameBtn) renameBtn.style.display = hasStory ? 'inline-block' : 'none'
+    if (deleteBtn) deleteBtn.style.display = hasStory ? 'inline-block' : 'none'
+    if (exportBtn) exportBtn.style.display = hasStory ? 'inline-block' : 'none'
+    if (saveSceneBtn) {
+      saveSceneBtn.style.display = hasStory ? 'inline-block' : 'none'
+      saveSceneBtn.textContent = this.activeNodeId ? '💾 Update scene from editor' : '💾 Save editor as scene'
+    }
+  }
+
+  private renderGraph(): void {
+    const graphDiv = document.getElementById('story-graph')
+    if (!graphDiv) return
+
+    graphDiv.innerHTML = ''
+    const story = this.activeStory
+    if (!story) return
+
+    if (story.nodes.length === 0) {
+      graphDiv.innerHTML = `<div class="story-empty">No scenes yet. Write one in the editor and save it to the story.</div>`
+      return
+    }
+
+    const root = story.rootNodeId ? getNode(story, story.rootNodeId) : undefined
+    if (root) {
+      graphDiv.appendChild(this.createNodeTree(story, root, null, new Set()))
+    }
+
+    const detached = getDetachedNodes(story)
+    if (detached.length > 0) {
+      const detachedDiv = document.createElement('div')
+      detachedDiv.className = 'story-detached'
+      const heading = document.createElement('div')
+      heading.className = 'story-detached-heading'
+      heading.textContent = 'Unconnected scenes'
+      detachedDiv.appendChild(heading)
+      // Show each branch once, starting from its parentless scene; scenes
+      // left over after that are in a loop of their own
+      const shown = new Set<string>()
+      const parentless = detached.filter(node => !getIncomingEdge(story, node.id))
+      for (const node of [...parentless, ...detached]) {
+        if (!shown.has(node.id)) {
+          detachedDiv.appendChild(this.createNodeTree(story, node, null, shown))
+        }
+      }
+      graphDiv.appendChild(detachedDiv)
+    }
+  }
+
+  private createNodeTree(story: Story, node: StoryNode, choice: string | null, visited: Set<string>): HTMLElement {
+    const branch = document.createElement('div')
+    branch.className = 'story-branch'
+
+    if (choice !== null) {
+      const choiceLabel = document.createElement('div')
+      choiceLabel.className = 'story-choice-label'
+      choiceLabel.textContent = `→ ${choice}`
+      branch.appendChild(choiceLabel)
+    }
+
+    branch.appendChild(this.createNodeElement(story, node))
+
+    // Guard against malformed graphs with cycles
+    if (visited.has(node.id)) return branch
+    visited.add(node.id)
+
+    const edges = getOutgoingEdges(story, node.id)
+    if (edges.length > 0) {
+      const children = document.createElement('div')
+      children.className = 'story-children'
+      edges.forEach(edge => {
+        const child = getNode(story, edge.to)
+        if (child) {
+          children.appendChild(this.createNodeTree(story, child, edge.choice, visited))
+        }
+      })
+      branch.appendChild(children)
+    }
+
+    return branch
+  }
+
+  private createNodeElement(story: Story, node: StoryNode): HTMLElement {
+    const nodeDiv = document.createElement('div')
+    nodeDiv.className = 'story-node' + (node.id === this.activeNodeId ? ' active' : '')
+
+    const status = node.post ? '📮' : node.isEnding ? '🏁' : '📝'
+    const statusTitle = node.post ? 'Published' : node.isEnding ? 'Ending' : 'Planned'
+
+    const titleSpan = document.createElement('span')
+    titleSpan.className = 'story-node-title'
+    titleSpan.textContent = `${status} ${node.title}`
+    titleSpan.title = statusTitle
+    nodeDiv.appendChild(titleSpan)
+
+    const actions = document.createElement('span')
+    actions.className = 'story-node-actions'
+
+    const addAction = (label: string, title: string, handler: () => void) => {
+      const button = document.createElement('button')
+      button.className = 'icon-button'
+      button.textContent = label
+      button.title = title
+      button.addEventListener('click', (e) => {
+        e.stopPropagation()
+        handler()
+      })
+      actions.appendChild(button)
+    }
+
+    addAction('✏️', 'Load into editor', () => this.callbacks.onLoadScene(node))
+    addAction('➕', 'Add branch', () => {
+      const choice = prompt('Choice text leading to the new scene:')?.trim()
+      if (choice) {
+        addBranch(story, node.id, choice)
+        this.commit()
+      }
+    })
+
+    // Offer one branch per unused choice of this scene
+    const usedChoices = new Set(getOutgoingEdges(story, node.id).map(e => e.choice))
+    const unusedChoices = parseChoices(node.scene.choices).filter(c => !usedChoices.has(c.label))
+    if (unusedChoices.length > 0) {
+      addAction('🌿', `Add branches for ${unusedChoices.length} unplanned choice(s)`, () => {
+        unusedChoices.forEach(c => addBranch(story, node.id, c.label))
+        this.commit()
+      })
+    }
+
+    addAction('🏁', node.isEnding ? 'Unmark ending' : 'Mark as ending', () => {
+      updateScene(story, node.id, { isEnding: !node.isEnding })
+      this.commit()
+    })
+    addAction('🗑️', 'Delete scene', () => {
+      if (confirm(`Delete the scene "${node.title}"?`)) {
+        removeScene(story, node.id)
+        this.commit()
+      }
+    })
+
+    nodeDiv.appendChild(actions)
+    nodeDiv.addEventListener('click', () => this.callbacks.onLoadScene(node))
+
+    return nodeDiv
+  }
+
+  private saveEditorAsScene(): void {
+    const story = this.activeStory
+    if (!story) return
+
+    const scene = this.callbacks.getEditorScene()
+    const activeNode = this.activeNodeId ? getNode(story, this.activeNodeId) : undefined
+
+    if (activeNode) {
+      updateScene(story, activeNode.id, { scene })
+      this.commit()
+      return
+    }
+
+    const defaultTitle = scene.postText.trim().split('\n')[0].slice(0, 40) || `Scene ${story.nodes.length + 1}`
+    const title = prompt('Scene title:', defaultTitle)?.trim()
+    if (!title) return
+
+    const node = addScene(story, title, scene)
+    this.commit()
+    this.callbacks.onLoadScene(node)
+  }
+
+  private commit(): void {
+    if (this.activeStory) {
+      this.callbacks.onStoryChange(this.activeStory)
+    }
+  }
+}
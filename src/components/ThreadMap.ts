@@ -0,0 +1,210 @@
+import { Post } from '../types'
+import { ThreadTreeNode, flattenThreadTree, layoutThreadTree } from '../utils/threadTree'
+
+export interface ThreadMapCallbacks {
+  onOpen: () => void
+  onNodeSelect: (uri: string) => void
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg'
+const COLUMN_WIDTH = 60
+const ROW_HEIGHT = 70
+const NODE_RADIUS = 10
+const MIN_SCALE = 0.1
+const MAX_SCALE = 4
+
+export class ThreadMap {
+  private scale = 1
+  private offsetX = 0
+  private offsetY = 0
+  private viewport: SVGGElement | null = null
+
+  constructor(
+    private callbacks: ThreadMapCallbacks
+  ) {}
+
+  initialize(): void {
+    document.getElementById('thread-map-button')?.addEventListener('click', () => this.callbacks.onOpen())
+    document.getElementById('close-thread-map')?.addEventListener('click', () => this.hide())
+    document.getElementById('thread-map-zoom-in')?.addEventListener('click', () => this.zoomBy(1.25))
+    document.getElementById('thread-map-zoom-out')?.addEventListener('click', () => this.zoomBy(0.8))
+    document.getElementById('thread-map-reset')?.addEventListener('click', () => this.resetView())
+  }
+
+  setLoading(message: string): void {
+    const section = document.getElementById('thread-map-section')
+    const canvas = document.getElementById('thread-map-canvas')
+    if (!section || !canvas) return
+
+    section.style.display = 'block'
+    canvas.innerHTML = `<div class="thread-map-message">⏳ ${message}</div>`
+  }
+
+  showError(message: string): void {
+    const section = document.getElementById('thread-map-section')
+    const canvas = document.getElementById('thread-map-canvas')
+    if (!section || !canvas) return
+
+    section.style.display = 'block'
+    canvas.innerHTML = ''
+    const errorDiv = document.createElement('div')
+    errorDiv.className = 'status error'
+    errorDiv.textContent = message
+    canvas.appendChild(errorDiv)
+  }
+
+  render(root: ThreadTreeNode, selectedPath: Post[]): void {
+    const section = document.getElementById('thread-map-section')
+    const canvas = document.getElementById('thread-map-canvas')
+    const stats = document.getElementById('thread-map-stats')
+    if (!section || !canvas) return
+
+    section.style.display = 'block'
+    canvas.innerHTML = ''
+
+    layoutThreadTree(root)
+    const nodes = flattenThreadTree(root)
+    const selectedUris = new Set(selectedPath.map(p => p.uri))
+
+    if (stats) {
+      const scenes = nodes.filter(n => n.isScene).length
+      const maxDepth = Math.max(...nodes.map(n => n.depth))
+      stats.textContent = `${scenes} scene posts • ${nodes.length - scenes} reader comments • ${maxDepth + 1} levels deep`
+    }
+
+    const svg = document.createElementNS(SVG_NS, 'svg')
+    svg.setAttribute('class', 'thread-map-svg')
+    const viewport = document.createElementNS(SVG_NS, 'g')
+    svg.appendChild(viewport)
+    this.viewport = viewport
+
+    const position = (node: ThreadTreeNode) => ({
+      x: node.x * COLUMN_WIDTH + COLUMN_WIDTH / 2,
+      y: node.y * ROW_HEIGHT + ROW_HEIGHT / 2,
+    })
+
+    // Edges first so nodes draw on top
+    nodes.forEach(node => {
+      const from = position(node)
+      node.children.forEach(child => {
+        const to = position(child)
+        const path = document.createElementNS(SVG_NS, 'path')
+        const midY = (from.y + to.y) / 2
+        path.setAttribute('d', `M ${from.x} ${from.y} C ${from.x} ${midY}, ${to.x} ${midY}, ${to.x} ${to.y}`)
+        const onPath = selectedUris.has(node.post.uri) && selectedUris.has(child.post.uri)
+        path.setAttribute('class', 'thread-map-edge' + (onPath ? ' selected' : ''))
+        viewport.appendChild(path)
+      })
+    })
+
+    nodes.forEach(node => {
+      const { x, y } = position(node)
+      const group = document.createElementNS(SVG_NS, 'g')
+      const classes = ['thread-map-node', node.isScene ? 'scene' : 'comment']
+      if (selectedUris.has(node.post.uri)) classes.push('selected')
+      group.setAttribute('class', classes.join(' '))
+      group.setAttribute('transform', `translate(${x}, ${y})`)
+
+      const shape = node.isScene
+        ? document.createElementNS(SVG_NS, 'rect')
+        : document.createElementNS(SVG_NS, 'circle')
+      if (node.isScene) {
+        shape.setAttribute('x', String(-NODE_RADIUS))
+        shape.setAttribute('y', String(-NODE_RADIUS))
+        shape.setAttribute('width', String(NODE_RADIUS * 2))
+        shape.setAttribute('height', String(NODE_RADIUS * 2))
+        shape.setAttribute('rx', '3')
+      } else {
+        shape.setAttribute('r', String(NODE_RADIUS * 0.8))
+      }
+      group.appendChild(shape)
+
+      const label = document.createElementNS(SVG_NS, 'text')
+      label.setAttribute('y', String(NODE_RADIUS + 14))
+      label.setAttribute('text-anchor', 'middle')
+      label.textContent = node.post.author.handle.split('.')[0].slice(0, 10)
+      group.appendChild(label)
+
+      const title = document.createElementNS(SVG_NS, 'title')
+      title.textContent = `@${node.post.author.handle}${node.isScene ? ' (scene)' : ''}\n${node.post.record.text}`
+      group.appendChild(title)
+
+      group.addEventListener('click', (e) => {
+        e.stopPropagation()
+        this.callbacks.onNodeSelect(node.post.uri)
+      })
+
+      viewport.appendChild(group)
+    })
+
+    canvas.appendChild(svg)
+    this.attachPanZoom(svg)
+    this.resetView()
+  }
+
+  hide(): void {
+    const section = document.getElementById('thread-map-section')
+    if (section) section.style.display = 'none'
+  }
+
+  private attachPanZoom(svg: SVGSVGElement): void {
+    let dragging = false
+    let lastX = 0
+    let lastY = 0
+
+    svg.addEventListener('wheel', (e) => {
+      e.preventDefault()
+      const rect = svg.getBoundingClientRect()
+      this.zoomBy(e.deltaY < 0 ? 1.1 : 0.9, e.clientX - rect.left, e.clientY - rect.top)
+    }, { passive: false })
+
+    svg.addEventListener('pointerdown', (e) => {
+      dragging = true
+      lastX = e.clientX
+      lastY = e.clientY
+    })
+
+    svg.addEventListener('pointermove', (e) => {
+      if (!dragging) return
+      this.offsetX += e.clientX - lastX
+      this.offsetY += e.clientY - lastY
+      lastX = e.clientX
+      lastY = e.clientY
+      this.applyTransform()
+    })
+
+    const stopDragging = () => { dragging = false }
+    svg.addEventListener('pointerup', stopDragging)
+    svg.addEventListener('pointerleave', stopDragging)
+  }
+
+  private zoomBy(factor: number, originX?: number, originY?: number): void {
+    const canvas = document.getElementById('thread-map-canvas')
+    const x = originX ?? (canvas?.clientWidth || 0) / 2
+    const y = originY ?? (canvas?.clientHeight || 0) / 2
+
+    const newScale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, this.scale * factor))
+    // Keep the point under the cursor fixed while zooming
+    this.offsetX = x - ((x - this.offsetX) * newScale) / this.scale
+    this.offsetY = y - ((y - this.offsetY) * newScale) / this.scale
+    this.scale = newScale
+    this.applyTransform()
+  }
+
+  private resetView(): void {
+    const canvas = document.getElementById('thread-map-canvas')
+    if (!this.viewport || !canvas) return
+
+    // Fit the whole tree into the canvas width
+    const bounds = this.viewport.getBBox()
+    const available = canvas.clientWidth || 800
+    this.scale = bounds.width > 0 ? Math.min(1, available / (bounds.width + COLUMN_WIDTH)) : 1
+    this.offsetX = Math.max(0, (available - bounds.width * this.scale) / 2) - bounds.x * this.scale
+    this.offsetY = 10
+    this.applyTransform()
+  }
+
+  private applyTransform(): void {
+    this.viewport?.setAttribute('transform', `translate(${this.offsetX}, ${this.offsetY}) scale(${this.scale})`)
+  }
+}
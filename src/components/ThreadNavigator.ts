@@ -1,22 +1,39 @@
-import { Post, ThreadNode } from '../types'
+import { Post, ThreadNode, UnavailablePost } from '../types'
+import { PostRenderer } from './PostRenderer'
 
 export interface ThreadNavigatorCallbacks {
   onPostSelect: (post: Post) => void
   onReplyTo: (post: Post) => void
   onPathReset: (pathIndex: number, post: Post) => void
+  getPostUrl: (post: Post) => string
+  getWebAppUrl: () => string
+}
+
+const UNAVAILABLE_LABELS: Record<UnavailablePost['status'], string> = {
+  deleted: 'Deleted post',
+  blocked: 'Post from a blocked account',
+  notFound: 'Post not found',
+  invalid: 'Post that couldn\'t be read',
 }
 
 export class ThreadNavigator {
   private container: HTMLElement | null = null
+  private postRenderer: PostRenderer
+  private unseenReplyUris: Set<string> = new Set() // Replies that arrived while polling
 
   constructor(
     private callbacks: ThreadNavigatorCallbacks
-  ) {}
+  ) {
+    this.postRenderer = new PostRenderer({ getWebAppUrl: callbacks.getWebAppUrl })
+  }
 
-  render(threadPath: ThreadNode[], _editingReplyTo: Post | null): void {
+  render(threadPath: ThreadNode[], _editingReplyTo: Post | null, unseenReplyUris: Set<string> = new Set()): void {
     const threadView = document.getElementById('thread-view')
     if (!threadView) return
 
+    this.unseenReplyUris = unseenReplyUris
+
+    this.postRenderer.destroyVideos()
     threadView.innerHTML = ''
     this.container = threadView
 
@@ -94,7 +111,7 @@ export class ThreadNavigator {
     timeSpan.textContent = new Date(post.indexedAt).toLocaleString()
 
     const postLink = document.createElement('a')
-    postLink.href = `https://bsky.app/profile/${post.author.handle}/post/${post.uri.split('/').pop()}`
+    postLink.href = this.callbacks.getPostUrl(post)
     postLink.target = '_blank'
     postLink.className = 'post-external-link'
     postLink.title = 'View on Bluesky'
@@ -107,9 +124,7 @@ export class ThreadNavigator {
     headerDiv.appendChild(authorSpan)
     headerDiv.appendChild(dateAndLinkSpan)
 
-    const textDiv = document.createElement('div')
-    textDiv.className = 'post-text'
-    textDiv.textContent = post.record.text
+    const textDiv = this.postRenderer.renderText(post.record.text, post.record.facets)
 
     const actionsDiv = document.createElement('div')
     actionsDiv.className = 'post-actions'
@@ -119,40 +134,10 @@ export class ThreadNavigator {
     postDiv.appendChild(headerDiv)
     postDiv.appendChild(textDiv)
 
-    // Add images if present
-    if (post.embed && post.embed.$type === 'app.bsky.embed.images#view' && post.embed.images) {
-      const imagesDiv = document.createElement('div')
-      imagesDiv.className = 'post-images'
-
-      post.embed.images.forEach((image: any) => {
-        const imgContainer = document.createElement('div')
-        imgContainer.className = 'post-image-container'
-
-        const img = document.createElement('img')
-        img.src = image.thumb || image.fullsize
-        img.alt = image.alt || ''
-        img.className = 'post-image'
-        img.loading = 'lazy'
-
-        // Set aspect ratio if available to maintain proper dimensions
-        if (image.aspectRatio) {
-          imgContainer.style.aspectRatio = `${image.aspectRatio.width} / ${image.aspectRatio.height}`
-        }
-
-        // Make image clickable to view full size
-        if (image.fullsize) {
-          img.style.cursor = 'pointer'
-          img.addEventListener('click', (e) => {
-            e.stopPropagation()
-            window.open(image.fullsize, '_blank')
-          })
-        }
-
-        imgContainer.appendChild(img)
-        imagesDiv.appendChild(imgContainer)
-      })
-
-      postDiv.appendChild(imagesDiv)
+    // Add images, link cards, video or quoted posts
+    const embed = post.embed && this.postRenderer.renderEmbed(post.embed)
+    if (embed) {
+      postDiv.appendChild(embed)
     }
 
     postDiv.appendChild(actionsDiv)
@@ -161,7 +146,9 @@ export class ThreadNavigator {
   }
 
   private createCurrentPostTree(node: ThreadNode): HTMLElement | null {
-    if (!node.replies || node.replies.length === 0) {
+    const replies = node.replies || []
+    const unavailable = node.unavailableReplies || []
+    if (replies.length === 0 && unavailable.length === 0) {
       return this.createEditorOnlyBranch()
     }
 
@@ -173,14 +160,18 @@ export class ThreadNavigator {
 
     // Limit to 10 replies, show "more" stub if needed
     const maxReplies = 10
-    const visibleReplies = node.replies.slice(0, maxReplies)
-    const hiddenCount = node.replies.length - maxReplies
+    const visibleReplies = replies.slice(0, maxReplies)
+    const visiblePlaceholders = unavailable.slice(0, maxReplies - visibleReplies.length)
+    const hiddenCount = replies.length + unavailable.length - visibleReplies.length - visiblePlaceholders.length
 
-    // Add visible replies as stubs
+    // Add visible replies as stubs, then placeholders for ones that can't be shown
     visibleReplies.forEach((reply) => {
       const replyCard = this.createReplyCard(reply, false)
       branchContainer.appendChild(replyCard)
     })
+    visiblePlaceholders.forEach((item) => {
+      branchContainer.appendChild(this.createUnavailableCard(item))
+    })
 
     // Add "more" stub if there are hidden replies
     if (hiddenCount > 0) {
@@ -209,7 +200,9 @@ export class ThreadNavigator {
     nodeIndex: number,
     selectedReply: Post
   ): HTMLElement | null {
-    if (!node.replies || node.replies.length === 0) {
+    const replies = node.replies || []
+    const unavailable = node.unavailableReplies || []
+    if (replies.length === 0 && unavailable.length === 0) {
       return null
     }
 
@@ -225,14 +218,15 @@ export class ThreadNavigator {
     let totalNonSelected = 0
 
     // First count total non-selected
-    node.replies.forEach((reply) => {
+    replies.forEach((reply) => {
       if (reply.uri !== selectedReply.uri) {
         totalNonSelected++
       }
     })
+    totalNonSelected += unavailable.length
 
     // Show up to maxReplies non-selected replies
-    node.replies.forEach((reply) => {
+    replies.forEach((reply) => {
       const isSelected = reply.uri === selectedReply.uri
 
       if (!isSelected && nonSelectedCount < maxReplies) {
@@ -246,6 +240,10 @@ export class ThreadNavigator {
         nonSelectedCount++
       }
     })
+    unavailable.slice(0, maxReplies - nonSelectedCount).forEach((item) => {
+      branchContainer.appendChild(this.createUnavailableCard(item))
+      nonSelectedCount++
+    })
 
     // Add "more" stub if there are hidden replies
     const hiddenCount = totalNonSelected - nonSelectedCount
@@ -310,13 +308,37 @@ export class ThreadNavigator {
     return cardWithLine
   }
 
+  /**
+   * Placeholder for a reply that was deleted, is blocked, wasn't found or
+   * couldn't be read
+   */
+  private createUnavailableCard(item: UnavailablePost): HTMLElement {
+    const card = document.createElement('div')
+    card.className = `reply-card unavailable ${item.status}`
+
+    const textDiv = document.createElement('div')
+    textDiv.className = 'reply-card-text'
+    textDiv.textContent = UNAVAILABLE_LABELS[item.status]
+    card.appendChild(textDiv)
+
+    const treeLine = document.createElement('div')
+    treeLine.className = 'tree-line'
+
+    const cardWithLine = document.createElement('div')
+    cardWithLine.className = 'card-with-line'
+    cardWithLine.appendChild(treeLine)
+    cardWithLine.appendChild(card)
+
+    return cardWithLine
+  }
+
   private createReplyCard(
     reply: Post,
     isSelected: boolean,
     onClick?: () => void
   ): HTMLElement {
     const replyCard = document.createElement('div')
-    replyCard.className = 'reply-card' + (isSelected ? ' selected' : '')
+    replyCard.className = 'reply-card' + (isSelected ? ' selected' : '') + (this.unseenReplyUris.has(reply.uri) ? ' unseen' : '')
 
     // Get first few words of reply text
     const previewText = reply.record.text.substring(0, 50)
@@ -348,6 +370,7 @@ export class ThreadNavigator {
   }
 
   clear(): void {
+    this.postRenderer.destroyVideos()
     if (this.container) {
       this.container.innerHTML = ''
     }
@@ -0,0 +1,149 @@
+import { VoteTally } from '../utils/voteTally'
+
+export interface VoteTallyPanelCallbacks {
+  onTally: () => void
+  onReplySelect?: (replyUri: string) => void
+}
+
+export class VoteTallyPanel {
+  constructor(
+    private callbacks: VoteTallyPanelCallbacks
+  ) {}
+
+  initialize(): void {
+    const tallyButton = document.getElementById('tally-votes-button')
+    tallyButton?.addEventListener('click', () => this.callbacks.onTally())
+
+    const refreshButton = document.getElementById('refresh-vote-tally')
+    refreshButton?.addEventListener('click', () => this.callbacks.onTally())
+
+    const closeButton = document.getElementById('close-vote-tally')
+    closeButton?.addEventListener('click', () => this.hide())
+  }
+
+  setLoading(message: string): void {
+    const section = document.getElementById('vote-tally-section')
+    const content = document.getElementById('vote-tally-content')
+    if (!section || !content) return
+
+    section.style.display = 'block'
+    content.innerHTML = `<div class="vote-tally-empty">⏳ ${message}</div>`
+  }
+
+  showError(message: string): void {
+    const section = document.getElementById('vote-tally-section')
+    const content = document.getElementById('vote-tally-content')
+    if (!section || !content) return
+
+    section.style.display = 'block'
+    content.innerHTML = ''
+    const errorDiv = document.createElement('div')
+    errorDiv.className = 'status error'
+    errorDiv.textContent = message
+    content.appendChild(errorDiv)
+  }
+
+  render(tally: VoteTally): void {
+    const section = document.getElementById('vote-tally-section')
+    const content = document.getElementById('vote-tally-content')
+    if (!section || !content) return
+
+    section.style.display = 'block'
+    content.innerHTML = ''
+
+    // Summary line with winner or tie
+    const summary = document.createElement('div')
+    summary.className = 'vote-tally-summary'
+    if (tally.winners.length === 0) {
+      summary.textContent = 'No votes yet'
+    } else if (tally.winners.length === 1) {
+      summary.textContent = `🏆 Leading: ${tally.winners[0].letter}) ${tally.winners[0].label}`
+    } else {
+      summary.textContent = `🤝 Tie between ${tally.winners.map(w => w.letter).join(', ')}`
+    }
+    content.appendChild(summary)
+
+    // Ranked results
+    const maxVotes = Math.max(1, ...tally.results.map(r => r.votes))
+    const resultsList = document.createElement('div')
+    resultsList.className = 'vote-tally-results'
+
+    tally.results.forEach((result) => {
+      const isTied = tally.results.filter(r => r.rank === result.rank).length > 1 && result.votes > 0
+      const row = document.createElement('div')
+      row.className = 'vote-tally-row' + (result.rank === 1 && result.votes > 0 ? ' leading' : '')
+
+      const label = document.createElement('div')
+      label.className = 'vote-tally-label'
+      label.textContent = `#${result.rank}${isTied ? ' (tie)' : ''} ${result.choice.letter}) ${result.choice.label}`
+
+      const bar = document.createElement('div')
+      bar.className = 'vote-tally-bar'
+      const fill = document.createElement('div')
+      fill.className = 'vote-tally-bar-fill'
+      fill.style.width = `${(result.votes / maxVotes) * 100}%`
+      bar.appendChild(fill)
+
+      const count = document.createElement('div')
+      count.className = 'vote-tally-count'
+      count.textContent = `${result.votes}`
+      count.title = `${result.replyVotes} from replies, ${result.likeVotes} from likes`
+
+      row.appendChild(label)
+      row.appendChild(bar)
+      row.appendChild(count)
+      resultsList.appendChild(row)
+    })
+    content.appendChild(resultsList)
+
+    const totals = document.createElement('div')
+    totals.className = 'vote-tally-totals'
+    totals.textContent = `${tally.totalVotes} reader${tally.totalVotes === 1 ? '' : 's'} voted • one vote per reader, likes count for readers who didn't reply`
+    content.appendChild(totals)
+
+    // Unmatched replies, listed for a manual look
+    if (tally.unmatched.length > 0) {
+      const unmatchedDetails = document.createElement('details')
+      unmatchedDetails.className = 'vote-tally-unmatched'
+
+      const unmatchedSummary = document.createElement('summary')
+      unmatchedSummary.textContent = `${tally.unmatched.length} unmatched repl${tally.unmatched.length === 1 ? 'y' : 'ies'}`
+      unmatchedDetails.appendChild(unmatchedSummary)
+
+      tally.unmatched.forEach(({ reply, reason }) => {
+        const item = document.createElement('div')
+        item.className = 'vote-tally-unmatched-item'
+
+        const author = document.createElement('span')
+        author.className = 'reply-card-author'
+        author.textContent = `@${reply.author.handle}`
+
+        const reasonSpan = document.createElement('span')
+        reasonSpan.className = 'vote-tally-reason'
+        reasonSpan.textContent = reason === 'ambiguous' ? ' (matches several choices)' : ''
+
+        const text = document.createElement('div')
+        text.className = 'reply-card-text'
+        text.textContent = reply.record.text
+
+        item.appendChild(author)
+        item.appendChild(reasonSpan)
+        item.appendChild(text)
+
+        if (this.callbacks.onReplySelect) {
+          item.style.cursor = 'pointer'
+          item.addEventListener('click', () => this.callbacks.onReplySelect?.(reply.uri))
+        }
+
+        unmatchedDetails.appendChild(item)
+      })
+
+      content.appendChild(unmatchedDetails)
+    }
+  }
+
+  hide(): void {
+    const section = document.getElementById('vote-tally-section')
+    if (section) section.style.display = 'none'
+  }
+}
@@ -0,0 +1,201 @@
+import { VotingWindow, VotingWindowStatus } from '../types'
+import { parseChoices } from '../utils/voteTally'
+import { toDateTimeLocalValue } from './QueuePanel'
+
+export interface VotingPanelCallbacks {
+  onOpen: (deadline: Date, replyUnder: VotingWindow['replyUnder']) => void
+  onCloseNow: (id: string) => void
+  onExtend: (id: string, deadline: Date) => void
+  onPickWinner: (id: string, choiceIndex: number) => void
+  onStartDraft: (id: string) => void
+  onRemove: (id: string) => void
+}
+
+const STATUS_LABELS: Record<VotingWindowStatus, string> = {
+  open: '⏳ Voting open',
+  decided: '🏆 Decided',
+  tied: '⚖️ Tied',
+  'no-votes': '🤷 No votes',
+  failed: '❌ Failed',
+}
+
+const DEFAULT_VOTING_HOURS = 24
+
+/**
+ * Human-friendly time left until a deadline, e.g. "2h 15m"
+ */
+function formatTimeLeft(deadline: string): string {
+  const ms = new Date(deadline).getTime() - Date.now()
+  if (ms <= 0) return 'closing...'
+
+  const minutes = Math.ceil(ms / 60000)
+  const days = Math.floor(minutes / 1440)
+  const hours = Math.floor((minutes % 1440) / 60)
+  const mins = minutes % 60
+  if (days > 0) return `${days}d ${hours}h`
+  if (hours > 0) return `${hours}h ${mins}m`
+  return `${mins}m`
+}
+
+export class VotingPanel {
+  private windows: VotingWindow[] = []
+  private canOpen = false
+
+  constructor(
+    private callbacks: VotingPanelCallbacks
+  ) {}
+
+  initialize(): void {
+    const deadlineInput = document.getElementById('voting-deadline') as HTMLInputElement
+    if (deadlineInput) {
+      deadlineInput.value = toDateTimeLocalValue(new Date(Date.now() + DEFAULT_VOTING_HOURS * 60 * 60 * 1000))
+    }
+
+    document.getElementById('open-voting-button')?.addEventListener('click', () => {
+      const replyUnder = (document.getElementById('voting-reply-under') as HTMLSelectElement).value as VotingWindow['replyUnder']
+      const deadline = new Date(deadlineInput.value)
+      if (isNaN(deadline.getTime()) || deadline.getTime() <= Date.now()) {
+        alert('Pick a voting deadline in the future')
+        return
+      }
+      this.callbacks.onOpen(deadline, replyUnder)
+    })
+
+    // Keep countdowns current
+    setInterval(() => {
+      if (this.windows.some(w => w.status === 'open')) this.render(this.windows)
+    }, 60 * 1000)
+  }
+
+  /**
+   * Show or hide the form for opening a window on the current scene
+   */
+  setCanOpen(canOpen: boolean): void {
+    this.canOpen = canOpen
+    this.render(this.windows)
+  }
+
+  render(windows: VotingWindow[]): void {
+    this.windows = windows
+    const section = document.getElementById('voting-section')
+    const form = document.getElementById('voting-form')
+    const list = document.getElementById('voting-list')
+    if (!section || !list) return
+
+    section.style.display = this.canOpen || windows.length > 0 ? 'block' : 'none'
+    if (form) form.style.display = this.canOpen ? 'flex' : 'none'
+
+    list.innerHTML = ''
+    // Newest first
+    ;[...windows]
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .forEach(window => list.appendChild(this.createWindowElement(window)))
+  }
+
+  private createWindowElement(window: VotingWindow): HTMLElement {
+    const itemDiv = document.createElement('div')
+    itemDiv.className = `voting-item ${window.status}`
+
+    const header = document.createElement('div')
+    header.className = 'voting-item-header'
+
+    const status = document.createElement('span')
+    status.textContent = STATUS_LABELS[window.status]
+
+    const time = document.createElement('span')
+    time.className = 'voting-item-time'
+    time.textContent = window.status === 'open'
+      ? `Closes in ${formatTimeLeft(window.deadline)}`
+      : `Closed ${new Date(window.deadline).toLocaleString()}`
+    time.title = new Date(window.deadline).toLocaleString()
+
+    header.appendChild(status)
+    header.appendChild(time)
+    itemDiv.appendChild(header)
+
+    const scene = document.createElement('div')
+    scene.className = 'voting-item-scene'
+    scene.textContent = window.scene.text || '(image scene)'
+    itemDiv.appendChild(scene)
+
+    const detail = document.createElement('div')
+    detail.className = 'voting-item-detail'
+    if (window.status === 'decided' && window.winner) {
+      const reply = window.winner.reply ? ` • continue under @${window.winner.reply.handle}` : ''
+      detail.textContent = `Winner: ${window.winner.label} (${window.winner.votes} vote${window.winner.votes === 1 ? '' : 's'})${reply}`
+    } else if (window.status === 'tied' && window.tiedChoices) {
+      detail.textContent = `Tied between ${window.tiedChoices.map(c => c.label).join(', ')}. Pick a winner below.`
+    } else if (window.status === 'no-votes') {
+      detail.textContent = 'Nobody voted. Extend the deadline or pick a winner.'
+    } else {
+      detail.textContent = window.replyUnder === 'winning-reply'
+        ? 'Next scene goes under the top reply for the winner'
+        : 'Next scene goes under this scene'
+    }
+    itemDiv.appendChild(detail)
+
+    if (window.outcome) {
+      const outcome = document.createElement('div')
+      outcome.className = 'voting-item-note'
+      outcome.textContent = window.outcome
+      itemDiv.appendChild(outcome)
+    }
+
+    if (window.error) {
+      const error = document.createElement('div')
+      error.className = 'voting-item-note error'
+      error.textContent = window.error
+      itemDiv.appendChild(error)
+    }
+
+    itemDiv.appendChild(this.createActions(window))
+    return itemDiv
+  }
+
+  private createActions(window: VotingWindow): HTMLElement {
+    const actions = document.createElement('div')
+    actions.className = 'voting-item-actions'
+
+    const addAction = (label: string, title: string, handler: () => void) => {
+      const button = document.createElement('button')
+      button.className = 'secondary-button'
+      button.textContent = label
+      button.title = title
+      button.addEventListener('click', handler)
+      actions.appendChild(button)
+    }
+
+    if (window.status === 'open' || window.status === 'failed') {
+      addAction('Close now', 'Tally the votes now', () => this.callbacks.onCloseNow(window.id))
+    }
+
+    if (window.status === 'tied' || window.status === 'no-votes') {
+      const candidates = window.tiedChoices || parseChoices(window.choices).map(c => ({ choiceIndex: c.index, label: c.label }))
+      candidates.forEach(candidate => {
+        addAction(`Pick "${candidate.label}"`, 'Settle the vote with this choice', () => {
+          this.callbacks.onPickWinner(window.id, candidate.choiceIndex)
+        })
+      })
+    }
+
+    if (window.status === 'no-votes') {
+      addAction('+24h', 'Keep voting open for another day', () => {
+        this.callbacks.onExtend(window.id, new Date(Date.now() + DEFAULT_VOTING_HOURS * 60 * 60 * 1000))
+      })
+    }
+
+    if (window.status === 'decided') {
+      addAction('✏️ Start draft', 'Load a draft for the winning branch into the editor', () => {
+        this.callbacks.onStartDraft(window.id)
+      })
+    }
+
+    addAction('🗑️', window.status === 'open' ? 'Cancel voting' : 'Remove', () => {
+      if (window.status !== 'open' || confirm('Cancel this voting window?')) {
+        this.callbacks.onRemove(window.id)
+      }
+    })
+
+    return actions
+  }
+}
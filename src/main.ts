@@ -1,16 +1,57 @@
 import './style.css'
-import { Post, ThreadNode } from './types'
+import { AppBskyRichtextFacet, AtUri } from '@atproto/api'
+import { AccountSettings, AuthState, ContentLabel, Draft, ImagePanelSettings, InteractionSettings, LinkCard, NumberingStyle, Post, QueuedPost, QuoteRef, ReplyRef, SceneData, SceneMedia, Story, StoryNode, ThreadNode, ThreadReplies, ThreadState, UnavailablePost, VotingWindow } from './types'
 import { StorageService } from './services/storage'
 import { AuthService } from './services/auth'
-import { BlueskyService } from './services/bluesky'
+import { BlueskyService, PostExternal, PostImage, PostResponse } from './services/bluesky'
+import { LinkPreviewFetcher, getDefaultLinkPreviewFetcher } from './services/linkPreview'
+import { PublishQueue } from './services/publishQueue'
+import { VotingWindowService } from './services/votingWindows'
+import { REPLY_POLL_INTERVALS, ReplyPollState, ReplyPoller } from './services/replyPoller'
+import { DraftService } from './services/drafts'
 import { ImageGeneratorService } from './services/imageGenerator'
 import { ThreadNavigator } from './components/ThreadNavigator'
 import { SceneEditor } from './components/SceneEditor'
+import { VoteTallyPanel } from './components/VoteTallyPanel'
+import { StoryPlanner } from './components/StoryPlanner'
+import { ThreadMap } from './components/ThreadMap'
+import { StatsPanel } from './components/StatsPanel'
+import { QueuePanel } from './components/QueuePanel'
+import { VotingPanel } from './components/VotingPanel'
+import { DraftPicker } from './components/DraftPicker'
 import { ThemeService } from './services/theme'
 import { stripMarkdown } from './utils/markdown'
+import { parseChoices, tallyVotes, extractChoicesFromPost, matchReplyToChoice, ReplyLikes } from './utils/voteTally'
+import { buildArchive, readArchive } from './utils/archive'
+import { createStory, findNodeByPostUri, getNode, getOutgoingEdges, markPublished, setDefaultInteractions, setDefaultLabels } from './utils/storyGraph'
+import { ThreadTreeNode, buildThreadTree, findPathTo } from './utils/threadTree'
+import { isPostView, splitReplies } from './utils/threadView'
+import { AuthError, BlueskyError } from './utils/blueskyErrors'
+import { getErrorMessage } from './utils/errors'
+import { EngagementStats, buildEngagementStats, engagementStatsToCsv } from './utils/engagementStats'
+import { DEFAULT_WEB_APP_URL, buildPostUrl, buildProfileUrl, normalizeServiceUrl } from './utils/identity'
+import { MAX_IMAGE_PANELS, splitPanels } from './utils/panels'
+import { NUMBERING_STYLES } from './utils/splitText'
+import { buildSceneText, planSceneText } from './utils/sceneText'
+import { IMAGE_ALT_LIMIT, POST_TEXT_LIMIT, VIDEO_ALT_LIMIT, describeOverLimit, truncateToLimit } from './utils/textMeasure'
+import { REPLY_RULE_LABELS, describeInteractions, validateInteractions } from './utils/interactions'
+import { ADULT_LABELS, CONTENT_LABEL_NAMES, describeLabels } from './utils/contentLabels'
+import { validateLinkCard } from './utils/linkMetadata'
+import { dataUrlToBlob } from './utils/blob'
 
 // Character limits
-const BLUESKY_CHAR_LIMIT = 300
+const BLUESKY_CHAR_LIMIT = POST_TEXT_LIMIT.maxGraphemes
+
+interface PublishOptions {
+  replyTo?: ReplyRef
+  quote?: QuoteRef
+  facets?: AppBskyRichtextFacet.Main[]
+  interactions?: InteractionSettings
+  labels?: ContentLabel[]
+  linkCard?: LinkCard // Posted only when there is no media
+  statusDiv?: HTMLElement // Shows upload progress
+  bluesky?: BlueskyService // Defaults to the active account
+}
 
 class BotAdventureApp {
   // Services
@@ -18,15 +59,41 @@ class BotAdventureApp {
   private auth: AuthService
   private bluesky: BlueskyService
   private imageGenerator: ImageGeneratorService
+  private publishQueue: PublishQueue
+  private votingWindows: VotingWindowService
+  private drafts: DraftService
+  private replyPoller: ReplyPoller
+  private linkPreviewFetcher: LinkPreviewFetcher = getDefaultLinkPreviewFetcher()
 
   // Components
   private threadNavigator: ThreadNavigator
   private sceneEditor: SceneEditor
+  private voteTallyPanel: VoteTallyPanel
+  private storyPlanner: StoryPlanner
+  private threadMap: ThreadMap
+  private statsPanel: StatsPanel
+  private queuePanel: QueuePanel
+  private votingPanel: VotingPanel
+  private draftPicker: DraftPicker
 
   // Thread navigation state
   private threadPath: ThreadNode[] = []
   private editingReplyTo: Post | null = null
   private rootPost: Post | null = null
+  private threadTree: ThreadTreeNode | null = null
+  private unseenReplyUris = new Set<string>() // Found by polling and not opened yet
+  private engagementStats: EngagementStats | null = null
+
+  // Story planning state
+  private stories: Story[] = []
+  private activeStory: Story | null = null
+  private activeStoryNodeId: string | null = null
+
+  // Sign in with an app password instead of OAuth
+  private useAppPassword = false
+
+  // Bot account that posts in the loaded thread
+  private threadAccountDid: string | null = null
 
   constructor() {
     // Initialize theme service first to apply theme early
@@ -34,27 +101,142 @@ class BotAdventureApp {
 
     // Initialize services
     this.storage = new StorageService()
-    this.auth = new AuthService(this.storage, (authenticated, handle) => {
-      this.onAuthChange(authenticated, handle)
+    this.auth = new AuthService(this.storage, {
+      onAuthChange: (authenticated, handle) => this.onAuthChange(authenticated, handle),
+      onSessionExpired: (authState) => this.showSessionExpired(authState),
+      onAccountsChange: (accounts, activeDid) => this.renderAccounts(accounts, activeDid),
     })
-    this.bluesky = new BlueskyService(() => this.auth.getAgent())
+    this.bluesky = new BlueskyService(
+      () => this.auth.getAgent(),
+      () => this.auth.getAuthState()?.handle,
+      () => this.getWebAppUrl()
+    )
     this.imageGenerator = new ImageGeneratorService()
+    this.replyPoller = new ReplyPoller(this.storage.loadReplyPollSettings(), {
+      getTarget: () => this.auth.isUserAuthenticated() ? this.threadPath[this.threadPath.length - 1]?.post || null : null,
+      fetchReplies: (post) => this.getReplies(post).catch(error => {
+        this.handleAuthError(error)
+        throw error
+      }),
+      onReplies: (post, replies) => this.mergePolledReplies(post, replies),
+      onStateChange: (state) => this.renderReplyPollState(state),
+    })
+    this.publishQueue = new PublishQueue(this.storage, {
+      publish: (item) => this.publishQueuedPost(item),
+      canPublish: (item) => {
+        const accountDid = this.getQueuedPostAccount(item)
+        return !!accountDid && this.auth.isUserAuthenticated(accountDid)
+      },
+      onChange: (items) => this.queuePanel.render(items),
+    })
+    this.votingWindows = new VotingWindowService(this.storage, this.bluesky, {
+      canCheck: () => this.auth.isUserAuthenticated(),
+      onChange: (windows) => this.votingPanel.render(windows),
+      onDecided: (window) => this.advanceToWinner(window),
+    })
+    this.drafts = new DraftService(this.storage, {
+      onChange: (drafts, activeId) => this.draftPicker.render(drafts, activeId),
+    })
 
     // Initialize components
     this.threadNavigator = new ThreadNavigator({
       onPostSelect: (post) => this.selectPost(post),
       onReplyTo: (post) => this.setReplyTo(post),
-      onPathReset: (index, post) => this.resetThreadPath(index, post),
+      onPathReset: (index, post) => {
+        this.resetThreadPath(index, post)
+        this.pollPathEnd()
+      },
+      getPostUrl: (post) => this.getPostUrl(post),
+      getWebAppUrl: () => this.getWebAppUrl(),
     })
 
     this.sceneEditor = new SceneEditor({
       onPost: (text, imageText, choices, backgroundImage) => this.postToBluesky(text, imageText, choices, backgroundImage),
-      onSceneDataChange: (data) => this.storage.saveSceneData(data),
+      onSchedule: (text, imageText, choices, publishAt, backgroundImage) => this.scheduleScene(text, imageText, choices, publishAt, backgroundImage),
+      onSceneDataChange: (data) => this.drafts.saveEditorState(data, this.sceneEditor.getAudioFile()),
       onCancelReply: () => this.cancelReply(),
-    }, BLUESKY_CHAR_LIMIT)
+      onClear: () => this.setActiveStoryNode(null),
+      getSplitSettings: () => this.storage.loadSplitSettings(),
+      onSaveInteractionDefault: (settings) => this.saveInteractionDefault(settings),
+      onSaveLabelDefault: (labels) => this.saveLabelDefault(labels),
+      fetchLinkPreview: (url) => this.linkPreviewFetcher(url),
+    }, POST_TEXT_LIMIT)
+
+    this.voteTallyPanel = new VoteTallyPanel({
+      onTally: () => this.tallyCurrentScene(),
+      onReplySelect: (replyUri) => this.selectReplyByUri(replyUri),
+    })
+
+    this.storyPlanner = new StoryPlanner({
+      onStoryChange: (story) => this.saveStory(story),
+      onStorySelect: (storyId) => this.switchStory(storyId),
+      onStoryCreate: (title) => this.createStory(title),
+      onStoryDelete: (storyId) => this.deleteStory(storyId),
+      onStoryExport: (storyId) => this.exportStory(storyId),
+      onStoryImport: (file) => this.importStory(file),
+      onLoadScene: (node) => {
+        this.loadStoryScene(node).catch(error => console.error('Failed to open scene:', error))
+      },
+      getEditorScene: () => this.sceneEditor.getSceneData(),
+    })
+
+    this.threadMap = new ThreadMap({
+      onOpen: () => this.openThreadMap(),
+      onNodeSelect: (uri) => this.jumpToMapNode(uri),
+    })
+
+    this.statsPanel = new StatsPanel({
+      onOpen: () => this.openStats(),
+      onExport: () => this.exportStats(),
+      onSceneSelect: (uri) => this.jumpToThreadPost(uri),
+    })
+
+    this.queuePanel = new QueuePanel({
+      onReschedule: (id, publishAt) => this.publishQueue.reschedule(id, publishAt),
+      onEditText: (id, text) => {
+        const overLimit = describeOverLimit(text.trim(), POST_TEXT_LIMIT)
+        if (overLimit) {
+          alert(`${overLimit} - change not saved`)
+          return
+        }
+        this.publishQueue.update(id, { text: text.trim() })
+      },
+      onMove: (id, direction) => this.publishQueue.move(id, direction),
+      onCancel: (id) => this.publishQueue.remove(id),
+      onPublishNow: (id) => this.publishQueue.publishNow(id),
+      onClearFinished: () => this.publishQueue.clearFinished(),
+    })
+
+    this.draftPicker = new DraftPicker({
+      onSelect: (draftId) => this.drafts.select(draftId).then(draft => draft && this.openDraft(draft)),
+      onCreate: (name) => this.drafts.create(name).then(draft => this.openDraft(draft)),
+      onDuplicate: (draftId, name) => this.drafts.duplicate(draftId, name).then(draft => draft && this.openDraft(draft)),
+      onRename: (draftId, name) => this.drafts.rename(draftId, name),
+      onDelete: (draftId) => this.drafts.remove(draftId).then(draft => this.openDraft(draft)),
+    })
+
+    this.votingPanel = new VotingPanel({
+      onOpen: (deadline, replyUnder) => this.openVotingWindow(deadline, replyUnder),
+      onCloseNow: (id) => this.votingWindows.closeNow(id),
+      onExtend: (id, deadline) => this.votingWindows.extend(id, deadline),
+      onPickWinner: (id, choiceIndex) => this.votingWindows.pickWinner(id, choiceIndex),
+      onStartDraft: (id) => this.startWinnerDraft(id),
+      onRemove: (id) => this.votingWindows.remove(id),
+    })
 
     // Initialize UI and restore session
     this.initializeUI()
+
+    // Start publishing scheduled scenes
+    this.publishQueue.start().catch((error) => {
+      console.error('Failed to start publishing queue:', error)
+    })
+
+    // Close voting windows as their deadlines pass
+    this.votingWindows.start()
+
+    // Watch the current scene for new replies
+    this.replyPoller.start()
   }
 
   private initializeUI(): void {
@@ -62,15 +244,25 @@ class BotAdventureApp {
     app.innerHTML = this.getInitialHTML()
 
     this.attachEventListeners()
+    this.renderAccounts(this.auth.getAccounts(), this.auth.getAuthState()?.did || null)
 
-    // Restore auth session if available
+    // Restore auth session if available, or finish an OAuth sign-in
     const authState = this.auth.getAuthState()
-    if (authState) {
-      this.auth.restoreSession().then(async (handle) => {
-        if (handle) {
+    const isOAuthCallback = this.auth.hasPendingOAuthCallback()
+    if (authState || isOAuthCallback) {
+      this.auth.restoreSession().catch((error) => {
+        console.error('Session restoration failed:', error)
+        const authFormContainer = document.getElementById('auth-form-container')
+        if (authFormContainer) authFormContainer.style.display = 'block'
+        this.showStatus(document.getElementById('auth-status')!, getErrorMessage(error, 'Session restoration failed'), 'error')
+      }).then(async () => {
+        if (this.auth.isUserAuthenticated()) {
           // Load saved thread state
           await this.loadThreadState()
         }
+      }).catch((error) => {
+        console.error('Failed to restore thread:', error)
+        this.showStatus(document.getElementById('load-status')!, getErrorMessage(error, 'Failed to restore the saved thread'), 'error')
       })
     }
   }
@@ -83,19 +275,35 @@ class BotAdventureApp {
         <div id="auth-section" class="auth-section">
           <div id="auth-form-container">
             <h2>Bluesky Authentication</h2>
+            <div id="session-expired-notice" class="session-expired-notice" style="display: none;"></div>
             <form id="auth-form" class="auth-form">
               <div class="form-group">
                 <label for="handle">Handle (e.g., user.bsky.social)</label>
                 <input type="text" id="handle" placeholder="your-handle.bsky.social" required />
               </div>
 
-              <div class="form-group">
+              <div id="app-password-group" class="form-group" style="display: none;">
                 <label for="app-password">App Password</label>
-                <input type="password" id="app-password" placeholder="xxxx-xxxx-xxxx-xxxx" required />
-                <small style="opacity: 0.7">Create at Settings → Advanced → App passwords</small>
+                <input type="password" id="app-password" placeholder="xxxx-xxxx-xxxx-xxxx" />
+                <small style="opacity: 0.7">Create at Settings → Advanced → App passwords. Only the session is saved, not the password.</small>
               </div>
 
-              <button type="submit" id="auth-button">Connect</button>
+              <details class="auth-server-settings">
+                <summary>Server settings</summary>
+                <div class="form-group">
+                  <label for="service-url">PDS URL</label>
+                  <input type="url" id="service-url" placeholder="Found from your handle" />
+                  <small style="opacity: 0.7">For self-hosted or test servers</small>
+                </div>
+                <div class="form-group">
+                  <label for="web-app-url">Web app URL</label>
+                  <input type="url" id="web-app-url" placeholder="${DEFAULT_WEB_APP_URL}" />
+                  <small style="opacity: 0.7">Where post links open</small>
+                </div>
+              </details>
+
+              <button type="submit" id="auth-button">Sign in with Bluesky</button>
+              <a href="#" id="toggle-auth-method" class="auth-method-link">Use an app password instead</a>
             </form>
 
             <div id="auth-status"></div>
@@ -106,11 +314,29 @@ class BotAdventureApp {
               <span style="opacity: 0.7;">Connected as</span>
               <strong id="connected-handle">@handle</strong>
             </span>
+            <select id="account-select" class="account-select" title="Switch bot account" style="display: none;"></select>
+            <a href="#" id="add-account-button" class="logout-link">Add account</a>
             <a href="#" id="logout-button" class="logout-link">Logout</a>
           </div>
         </div>
 
         <div id="main-content" style="display: none;">
+          <!-- Story plan -->
+          <div id="story-planner-section" class="story-planner-section">
+            <div class="story-planner-header">
+              <label for="story-select">Story</label>
+              <select id="story-select"></select>
+              <button id="new-story-button" class="secondary-button">New</button>
+              <button id="rename-story-button" class="secondary-button" style="display: none;">Rename</button>
+              <button id="delete-story-button" class="secondary-button" style="display: none;">Delete</button>
+              <button id="export-story-button" class="secondary-button" style="display: none;" title="Download the story, drafts, thread and media as a zip">📦 Export</button>
+              <button id="import-story-button" class="secondary-button" title="Restore a story from an exported zip">Import</button>
+              <input type="file" id="import-story-input" accept=".zip,application/zip" style="display: none;" />
+            </div>
+            <div id="story-archive-status"></div>
+            <div id="story-graph" class="story-graph"></div>
+          </div>
+
           <!-- Load existing thread section -->
           <div id="load-thread-section" class="load-thread-section">
             <div class="form-group">
@@ -121,30 +347,123 @@ class BotAdventureApp {
                   <span style="position: absolute; right: 10px; top: 50%; transform: translateY(-50%); opacity: 0.5; pointer-events: none; font-size: 1.1em;">↩</span>
                 </div>
                 <button id="reload-thread" class="icon-button" style="display: none; padding: 6px 10px; font-size: 1.2em;" title="Reload thread">🔄</button>
+                <button id="tally-votes-button" class="icon-button" style="display: none; padding: 6px 10px; font-size: 1.2em;" title="Tally reader votes on the current scene">🗳️</button>
+                <button id="thread-map-button" class="icon-button" style="display: none; padding: 6px 10px; font-size: 1.2em;" title="Show branching map of the whole thread">🗺️</button>
+                <button id="stats-button" class="icon-button" style="display: none; padding: 6px 10px; font-size: 1.2em;" title="Engagement stats for each scene and branch">📈</button>
                 <button id="clear-thread" class="secondary-button" style="display: none;">Clear</button>
               </div>
               <small style="opacity: 0.7">Enter a Bluesky thread URL to load and continue authoring</small>
             </div>
+            <div id="reply-poll-row" class="reply-poll-row" style="display: none;">
+              <label>
+                <input type="checkbox" id="reply-poll-enabled">
+                <span>Check the current post for new replies every</span>
+              </label>
+              <select id="reply-poll-interval">
+                ${REPLY_POLL_INTERVALS.map(interval => `<option value="${interval.seconds}">${interval.label}</option>`).join('')}
+              </select>
+              <span id="reply-poll-status" class="reply-poll-status"></span>
+              <button type="button" id="new-replies-badge" class="new-replies-badge" style="display: none;"></button>
+            </div>
             <div id="load-status"></div>
           </div>
 
+          <!-- Branching map of the whole thread -->
+          <div id="thread-map-section" class="thread-map-section" style="display: none;">
+            <div class="thread-map-header">
+              <h3>Adventure Map</h3>
+              <div class="thread-map-legend">
+                <span class="thread-map-legend-scene">■ Scene post</span>
+                <span class="thread-map-legend-comment">● Reader comment</span>
+              </div>
+              <div style="display: flex; gap: 8px;">
+                <button id="thread-map-zoom-in" class="icon-button" title="Zoom in">＋</button>
+                <button id="thread-map-zoom-out" class="icon-button" title="Zoom out">－</button>
+                <button id="thread-map-reset" class="icon-button" title="Fit to view">⤢</button>
+                <button id="close-thread-map" class="icon-button" title="Close">✕</button>
+              </div>
+            </div>
+            <div id="thread-map-stats" class="thread-map-stats"></div>
+            <div id="thread-map-canvas" class="thread-map-canvas"></div>
+          </div>
+
+          <!-- Engagement per scene and branch -->
+          <div id="stats-section" class="vote-tally-section" style="display: none;">
+            <div class="vote-tally-header">
+              <h3>Engagement</h3>
+              <div style="display: flex; gap: 8px;">
+                <button id="export-stats" class="icon-button" title="Download as CSV">⬇️ CSV</button>
+                <button id="refresh-stats" class="icon-button" title="Refresh">🔄</button>
+                <button id="close-stats" class="icon-button" title="Close">✕</button>
+              </div>
+            </div>
+            <div id="stats-content"></div>
+          </div>
+
           <!-- Thread view -->
           <div id="thread-view" class="thread-view"></div>
 
+          <!-- Vote tally for the current scene -->
+          <div id="vote-tally-section" class="vote-tally-section" style="display: none;">
+            <div class="vote-tally-header">
+              <h3>Reader Votes</h3>
+              <div style="display: flex; gap: 8px;">
+                <button id="refresh-vote-tally" class="icon-button" title="Recount">🔄</button>
+                <button id="close-vote-tally" class="icon-button" title="Close">✕</button>
+              </div>
+            </div>
+            <div id="vote-tally-content"></div>
+          </div>
+
+          <!-- Voting deadlines -->
+          <div id="voting-section" class="voting-section" style="display: none;">
+            <h3>Voting Deadlines</h3>
+            <div id="voting-form" class="voting-form">
+              <input type="datetime-local" id="voting-deadline" title="When voting closes" />
+              <select id="voting-reply-under" title="Where the next scene is posted">
+                <option value="scene">Continue under the scene</option>
+                <option value="winning-reply">Continue under the top winning reply</option>
+              </select>
+              <button id="open-voting-button" class="secondary-button">⏳ Open voting on current scene</button>
+            </div>
+            <div id="voting-status"></div>
+            <div id="voting-list" class="voting-list"></div>
+          </div>
+
           <!-- Editor section -->
           <div id="editor-section" class="split-layout">
             <div class="editor-panel">
               <h2 id="editor-title">Create Scene</h2>
 
+              <div class="draft-bar">
+                <label for="draft-select">Draft</label>
+                <select id="draft-select"></select>
+                <button type="button" id="new-draft-button" class="secondary-button" title="Start an empty draft">New</button>
+                <button type="button" id="duplicate-draft-button" class="secondary-button" title="Copy this draft">Duplicate</button>
+                <button type="button" id="rename-draft-button" class="secondary-button">Rename</button>
+                <button type="button" id="delete-draft-button" class="secondary-button">Delete</button>
+              </div>
+
               <div class="form-group">
                 <label for="post-text">Post Text (optional, ${BLUESKY_CHAR_LIMIT} chars)</label>
                 <textarea id="post-text" placeholder="Optional text for the post..." rows="3"></textarea>
                 <div id="char-counter" class="char-counter">0 / ${BLUESKY_CHAR_LIMIT}</div>
+                <div class="split-options">
+                  <label>
+                    <input type="checkbox" id="split-long-text">
+                    <span>Split longer text into a chain of replies</span>
+                  </label>
+                  <select id="split-numbering" title="Part numbering">
+                    ${NUMBERING_STYLES.map(style => `<option value="${style.value}">${style.label}</option>`).join('')}
+                  </select>
+                </div>
               </div>
 
               <div class="form-group">
                 <label for="image-text">Image Text (optional, creates an image if filled)</label>
                 <textarea id="image-text" placeholder="Text that will be rendered as an image..." rows="5"></textarea>
+                <small style="opacity: 0.7">Separate up to four panels with a line containing only ---; choices go on the last panel</small>
+                <div id="image-panels" class="image-panels"></div>
               </div>
 
               <div class="form-group">
@@ -187,11 +506,106 @@ class BotAdventureApp {
                 <small style="opacity: 0.7">Choices go in the image if image text exists, otherwise in post text</small>
               </div>
 
+              <div id="quote-group" class="form-group" style="display: none;">
+                <label for="quote-select">Quote a previous scene (optional)</label>
+                <select id="quote-select"></select>
+                <small style="opacity: 0.7">Embeds a post from the current thread path, e.g. for recaps</small>
+              </div>
+
+              <details id="link-card-settings" class="interaction-settings">
+                <summary>Link card: <span id="link-card-summary">None</span></summary>
+                <div class="link-card-row">
+                  <input type="url" id="link-card-url" placeholder="https://... (blank: the first link in the post text)" />
+                  <button type="button" id="fetch-link-card" class="secondary-button">Fetch preview</button>
+                </div>
+                <input type="text" id="link-card-title" placeholder="Title" />
+                <textarea id="link-card-description" rows="2" placeholder="Description"></textarea>
+                <div class="link-card-row">
+                  <input type="file" id="link-card-thumb-input" accept="image/jpeg,image/png,image/webp,image/gif" style="display: none;">
+                  <button type="button" id="link-card-thumb-button" class="secondary-button">Choose thumbnail</button>
+                  <img id="link-card-thumb" class="link-card-thumb" style="display: none;">
+                  <button type="button" id="remove-link-card-thumb" class="secondary-button" style="display: none;">Remove thumbnail</button>
+                  <button type="button" id="remove-link-card" class="secondary-button">Clear card</button>
+                </div>
+                <small id="link-card-status" style="opacity: 0.7">Shown when the scene has no image or video. If a site can't be fetched, fill in the card by hand.</small>
+              </details>
+
+              <details id="content-warning-settings" class="interaction-settings">
+                <summary>Content warning: <span id="content-warning-summary">None</span></summary>
+                <label class="interaction-option">
+                  <input type="checkbox" id="labels-use-default" checked>
+                  <span>Use the story default</span>
+                </label>
+                <fieldset id="label-options" class="interaction-options">
+                  <label class="interaction-option">
+                    <span>Adult content</span>
+                    <select id="adult-label">
+                      <option value="">None</option>
+                      ${ADULT_LABELS.map(label => `<option value="${label}">${CONTENT_LABEL_NAMES[label]}</option>`).join('')}
+                    </select>
+                  </label>
+                  <label class="interaction-option">
+                    <input type="checkbox" id="graphic-media-label">
+                    <span>Graphic media (violence, gore)</span>
+                  </label>
+                </fieldset>
+                <div class="interaction-footer">
+                  <button type="button" id="save-label-default" class="secondary-button">Save as story default</button>
+                  <small style="opacity: 0.7">Labels mainly cover the image or video; split scenes label the last part</small>
+                </div>
+              </details>
+
+              <details id="interaction-settings" class="interaction-settings">
+                <summary>Who can reply or quote: <span id="interaction-summary">Anyone can reply</span></summary>
+                <label class="interaction-option">
+                  <input type="checkbox" id="interaction-use-default" checked>
+                  <span>Use the story default</span>
+                </label>
+                <fieldset id="interaction-options" class="interaction-options">
+                  <label class="interaction-option">
+                    <input type="radio" name="reply-audience" value="anyone" checked>
+                    <span>Anyone can reply</span>
+                  </label>
+                  <label class="interaction-option">
+                    <input type="radio" name="reply-audience" value="limited">
+                    <span>Only these can reply (tick none for nobody):</span>
+                  </label>
+                  <div class="reply-rules">
+                    ${Object.entries(REPLY_RULE_LABELS).map(([rule, label]) => `
+                      <label class="interaction-option">
+                        <input type="checkbox" name="reply-rule" value="${rule}">
+                        <span>${label}</span>
+                      </label>
+                    `).join('')}
+                    <input type="text" id="reply-list-uri" placeholder="List URL, e.g. https://bsky.app/profile/you/lists/..." />
+                  </div>
+                  <label class="interaction-option">
+                    <input type="checkbox" id="disable-quotes">
+                    <span>Don't allow quote posts</span>
+                  </label>
+                </fieldset>
+                <div class="interaction-footer">
+                  <button type="button" id="save-interaction-default" class="secondary-button">Save as story default</button>
+                  <small id="interaction-reply-note" style="opacity: 0.7; display: none;">Reply rules cover a whole thread, so they only apply when starting a new one</small>
+                </div>
+              </details>
+
+              <div class="form-group schedule-group">
+                <label for="schedule-time">Publish later (optional)</label>
+                <div style="display: flex; gap: 10px; align-items: center;">
+                  <input type="datetime-local" id="schedule-time" style="flex: 1;" />
+                  <button type="button" id="schedule-button" class="secondary-button" style="flex: 0 0 auto;">⏰ Schedule</button>
+                </div>
+                <small style="opacity: 0.7">Scheduled posts go out while this tab is open</small>
+              </div>
+
               <div class="button-group">
                 <button id="post-button" class="primary-button">Post to Bluesky</button>
                 <button id="clear-editor" class="secondary-button" style="margin-left: 10px;">Clear</button>
+                <button id="save-scene-to-story" class="secondary-button" style="margin-left: 10px; display: none;">💾 Save editor as scene</button>
               </div>
 
+              <div id="account-warning" class="account-warning" style="display: none;"></div>
               <div id="post-status"></div>
             </div>
 
@@ -209,6 +623,15 @@ class BotAdventureApp {
               </div>
             </div>
           </div>
+
+          <!-- Scheduled posts -->
+          <div id="queue-section" class="queue-section" style="display: none;">
+            <div class="queue-header">
+              <h3>Publishing Queue <span id="queue-count" class="queue-count">0</span></h3>
+              <button id="clear-finished-queue" class="secondary-button" style="display: none;">Clear published</button>
+            </div>
+            <div id="queue-list" class="queue-list"></div>
+          </div>
         </div>
       </div>
     `
@@ -222,6 +645,22 @@ class BotAdventureApp {
       this.handleAuth()
     })
 
+    document.getElementById('toggle-auth-method')?.addEventListener('click', (e) => {
+      e.preventDefault()
+      this.toggleAuthMethod()
+    })
+
+    // Account picker
+    const accountSelect = document.getElementById('account-select') as HTMLSelectElement
+    accountSelect?.addEventListener('change', () => {
+      this.auth.switchAccount(accountSelect.value)
+    })
+
+    document.getElementById('add-account-button')?.addEventListener('click', (e) => {
+      e.preventDefault()
+      this.toggleAddAccount()
+    })
+
     // Logout link
     const logoutButton = document.getElementById('logout-button')
     logoutButton?.addEventListener('click', (e) => {
@@ -229,6 +668,52 @@ class BotAdventureApp {
       this.handleLogout()
     })
 
+    // Splitting long post text
+    const splitCheckbox = document.getElementById('split-long-text') as HTMLInputElement
+    const splitNumbering = document.getElementById('split-numbering') as HTMLSelectElement
+    if (splitCheckbox && splitNumbering) {
+      const splitSettings = this.storage.loadSplitSettings()
+      splitCheckbox.checked = splitSettings.enabled
+      splitNumbering.value = splitSettings.numbering
+      splitNumbering.disabled = !splitSettings.enabled
+
+      const saveSplitSettings = () => {
+        splitNumbering.disabled = !splitCheckbox.checked
+        this.storage.saveSplitSettings({
+          enabled: splitCheckbox.checked,
+          numbering: splitNumbering.value as NumberingStyle,
+        })
+        this.sceneEditor.refreshTextPreview()
+      }
+      splitCheckbox.addEventListener('change', saveSplitSettings)
+      splitNumbering.addEventListener('change', saveSplitSettings)
+    }
+
+    // Background checks for new replies
+    const pollCheckbox = document.getElementById('reply-poll-enabled') as HTMLInputElement
+    const pollInterval = document.getElementById('reply-poll-interval') as HTMLSelectElement
+    if (pollCheckbox && pollInterval) {
+      const pollSettings = this.replyPoller.getSettings()
+      pollCheckbox.checked = pollSettings.enabled
+      pollInterval.value = String(pollSettings.intervalSeconds)
+      pollInterval.disabled = !pollSettings.enabled
+
+      const savePollSettings = () => {
+        pollInterval.disabled = !pollCheckbox.checked
+        const settings = { enabled: pollCheckbox.checked, intervalSeconds: Number(pollInterval.value) }
+        this.storage.saveReplyPollSettings(settings)
+        this.replyPoller.updateSettings(settings)
+      }
+      pollCheckbox.addEventListener('change', savePollSettings)
+      pollInterval.addEventListener('change', savePollSettings)
+    }
+
+    document.getElementById('new-replies-badge')?.addEventListener('click', () => {
+      this.unseenReplyUris.clear()
+      this.renderThread()
+      document.getElementById('thread-view')?.scrollIntoView({ behavior: 'smooth' })
+    })
+
     // Thread URL input - load on Enter
     const threadUrlInput = document.getElementById('thread-url') as HTMLInputElement
     threadUrlInput?.addEventListener('keypress', (e) => {
@@ -246,13 +731,8 @@ class BotAdventureApp {
     const reloadThreadBtn = document.getElementById('reload-thread') as HTMLButtonElement
     reloadThreadBtn?.addEventListener('click', () => {
       if (this.rootPost) {
-        const postUri = this.rootPost.uri
         // Convert URI to URL for reloading
-        const parts = postUri.split('/')
-        const postId = parts[parts.length - 1]
-        // Get handle from root post
-        const handle = this.rootPost.author.handle
-        const url = `https://bsky.app/profile/${handle}/post/${postId}`
+        const url = this.getPostUrl(this.rootPost)
         this.loadExistingThread(url, true) // true = reload mode
       }
     })
@@ -263,9 +743,38 @@ class BotAdventureApp {
       this.clearThread()
     })
 
-    // Initialize scene editor
-    const savedSceneData = this.storage.loadSceneData()
-    this.sceneEditor.initialize(this.editingReplyTo, savedSceneData)
+    // Vote tally panel
+    this.voteTallyPanel.initialize()
+    this.threadMap.initialize()
+    this.statsPanel.initialize()
+
+    // Publishing queue
+    this.queuePanel.initialize()
+
+    // Voting deadlines
+    this.votingPanel.initialize()
+
+    // Story planner
+    this.storyPlanner.initialize()
+    this.loadStories()
+
+    // Initialize scene editor, then restore the last open draft
+    this.sceneEditor.initialize(this.editingReplyTo)
+    this.draftPicker.initialize()
+    this.drafts.start()
+      .then(draft => this.openDraft(draft))
+      .catch(error => console.error('Failed to load drafts:', error))
+  }
+
+  private toggleAuthMethod(): void {
+    this.useAppPassword = !this.useAppPassword
+
+    const passwordGroup = document.getElementById('app-password-group')
+    const authButton = document.getElementById('auth-button')
+    const toggleLink = document.getElementById('toggle-auth-method')
+    if (passwordGroup) passwordGroup.style.display = this.useAppPassword ? 'block' : 'none'
+    if (authButton) authButton.textContent = this.useAppPassword ? 'Connect with app password' : 'Sign in with Bluesky'
+    if (toggleLink) toggleLink.textContent = this.useAppPassword ? 'Sign in with Bluesky instead' : 'Use an app password instead'
   }
 
   private async handleAuth(): Promise<void> {
@@ -277,7 +786,37 @@ class BotAdventureApp {
     const handle = handleInput.value.trim()
     const appPassword = passwordInput.value.trim()
 
-    if (!handle || !appPassword) {
+    if (!handle) {
+      this.showStatus(statusDiv, 'Please enter your handle', 'error')
+      return
+    }
+
+    let settings: AccountSettings
+    try {
+      settings = {
+        service: normalizeServiceUrl((document.getElementById('service-url') as HTMLInputElement).value),
+        webAppUrl: normalizeServiceUrl((document.getElementById('web-app-url') as HTMLInputElement).value),
+      }
+    } catch (error) {
+      this.showStatus(statusDiv, getErrorMessage(error, 'Invalid server URL'), 'error')
+      return
+    }
+
+    if (!this.useAppPassword) {
+      authButton.disabled = true
+      this.showStatus(statusDiv, 'Redirecting to your Bluesky server...', 'info')
+      try {
+        // Leaves the page; we come back through restoreSession
+        await this.auth.loginWithOAuth(handle, settings)
+      } catch (error) {
+        console.error('OAuth sign-in failed:', error)
+        this.showStatus(statusDiv, getErrorMessage(error, 'Sign-in failed'), 'error')
+        authButton.disabled = false
+      }
+      return
+    }
+
+    if (!appPassword) {
       this.showStatus(statusDiv, 'Please enter both handle and app password', 'error')
       return
     }
@@ -286,7 +825,7 @@ class BotAdventureApp {
     this.showStatus(statusDiv, 'Connecting...', 'info')
 
     try {
-      await this.auth.login(handle, appPassword)
+      await this.auth.login(handle, appPassword, settings)
 
       // Clear password from input
       passwordInput.value = ''
@@ -296,14 +835,12 @@ class BotAdventureApp {
 
       // Load saved thread state
       await this.loadThreadState()
-    } catch (error: any) {
+    } catch (error) {
       console.error('Auth error:', error)
 
-      let errorMessage = 'Authentication failed'
-      if (error.message?.includes('Invalid identifier or password')) {
+      let errorMessage = getErrorMessage(error, 'Authentication failed')
+      if (errorMessage.includes('Invalid identifier or password')) {
         errorMessage = 'Invalid handle or app password. Please check your credentials.'
-      } else if (error.message) {
-        errorMessage = error.message
       }
 
       this.showStatus(statusDiv, errorMessage, 'error')
@@ -313,18 +850,29 @@ class BotAdventureApp {
   }
 
   private handleLogout(): void {
+    // With other accounts saved, switch to the next one and keep everything
+    const isLastAccount = this.auth.getAccounts().length <= 1
+    this.auth.logout()
+    if (!isLastAccount) return
+
     // Clear all data
     this.storage.clearAll()
-    this.auth.logout()
 
     // Reset state
+    this.threadAccountDid = null
     this.threadPath = []
     this.editingReplyTo = null
     this.rootPost = null
 
     // Clear UI
     this.threadNavigator.clear()
-    this.sceneEditor.clearForm()
+    this.voteTallyPanel.hide()
+    this.setThreadToolsVisible(false)
+    this.threadMap.hide()
+    this.unseenReplyUris.clear()
+    this.statsPanel.hide()
+    this.engagementStats = null
+    this.threadTree = null
 
     // Reset UI visibility
     const authFormContainer = document.getElementById('auth-form-container')
@@ -343,17 +891,50 @@ class BotAdventureApp {
     if (passwordInput) passwordInput.value = ''
   }
 
+  /**
+   * The saved session can't be refreshed any more. Ask the same account to
+   * sign in again; the editor and thread are left as they are.
+   */
+  private showSessionExpired(authState: AuthState): void {
+    const authFormContainer = document.getElementById('auth-form-container')
+    const authConnected = document.getElementById('auth-connected')
+    const connectedHandle = document.getElementById('connected-handle')
+    const notice = document.getElementById('session-expired-notice')
+    const handleInput = document.getElementById('handle') as HTMLInputElement
+
+    if (authFormContainer) authFormContainer.style.display = 'block'
+    // Keep the picker around so another account can be picked instead
+    if (authConnected) authConnected.style.display = this.auth.getAccounts().length > 1 ? 'flex' : 'none'
+    if (connectedHandle) connectedHandle.textContent = `@${authState.handle}`
+    if (handleInput) handleInput.value = authState.handle
+
+    // Sign back in the same way as before
+    if ((authState.method === 'app-password') !== this.useAppPassword) {
+      this.toggleAuthMethod()
+    }
+
+    if (notice) {
+      notice.textContent = authState.method === 'app-password'
+        ? `Your session for @${authState.handle} has expired. Enter your app password to continue.`
+        : `Your session for @${authState.handle} has expired. Sign in again to continue.`
+      notice.style.display = 'block'
+    }
+  }
+
   private onAuthChange(authenticated: boolean, handle?: string): void {
     const authFormContainer = document.getElementById('auth-form-container')
     const authConnected = document.getElementById('auth-connected')
     const connectedHandle = document.getElementById('connected-handle')
     const mainContent = document.getElementById('main-content')
+    const expiredNotice = document.getElementById('session-expired-notice')
+
+    if (expiredNotice) expiredNotice.style.display = 'none'
 
     if (authenticated && handle) {
       if (authFormContainer) authFormContainer.style.display = 'none'
       if (authConnected) authConnected.style.display = 'flex'
       if (connectedHandle) {
-        connectedHandle.innerHTML = `<a href="https://bsky.app/profile/${handle}" target="_blank" style="color: #00bfff; text-decoration: none;">@${handle}</a>`
+        connectedHandle.innerHTML = `<a href="${buildProfileUrl(this.getWebAppUrl(), handle)}" target="_blank" style="color: #00bfff; text-decoration: none;">@${handle}</a>`
       }
       if (mainContent) mainContent.style.display = 'block'
     } else {
@@ -361,9 +942,107 @@ class BotAdventureApp {
       if (authConnected) authConnected.style.display = 'none'
       if (mainContent) mainContent.style.display = 'none'
     }
+
+    this.updateAccountWarning()
+  }
+
+  private renderAccounts(accounts: AuthState[], activeDid: string | null): void {
+    const accountSelect = document.getElementById('account-select') as HTMLSelectElement
+    if (!accountSelect) return
+
+    accountSelect.innerHTML = ''
+    accounts.forEach(account => {
+      const option = document.createElement('option')
+      option.value = account.did
+      option.textContent = `@${account.handle}`
+      if (account.did !== activeDid && !this.auth.isUserAuthenticated(account.did)) {
+        option.textContent += ' (signed out)'
+      }
+      accountSelect.appendChild(option)
+    })
+    accountSelect.value = activeDid || ''
+    accountSelect.style.display = accounts.length > 1 ? 'block' : 'none'
+
+    this.updateAccountWarning()
+  }
+
+  /**
+   * Show or hide the sign-in form for adding another bot account
+   */
+  private toggleAddAccount(): void {
+    const authFormContainer = document.getElementById('auth-form-container')
+    if (!authFormContainer) return
+
+    const isOpen = authFormContainer.style.display !== 'none'
+    authFormContainer.style.display = isOpen ? 'none' : 'block'
+    if (!isOpen) {
+      const handleInput = document.getElementById('handle') as HTMLInputElement
+      if (handleInput) {
+        handleInput.value = ''
+        handleInput.focus()
+      }
+    }
+  }
+
+  /**
+   * Web app that the active account's links open in
+   */
+  private getWebAppUrl(): string {
+    return this.auth.getAuthState()?.webAppUrl || DEFAULT_WEB_APP_URL
+  }
+
+  private getPostUrl(post: Post): string {
+    return buildPostUrl(this.getWebAppUrl(), post.author.handle, post.uri)
+  }
+
+  private getAccountLabel(did: string): string {
+    const account = this.auth.getAccounts().find(a => a.did === did)
+    return account ? `@${account.handle}` : did
+  }
+
+  /**
+   * The account a thread belongs to: the root's author if that's one of our
+   * bots, otherwise whichever account is replying to it now
+   */
+  private getThreadAccount(rootPost: Post): string | null {
+    if (this.auth.getAccounts().some(a => a.did === rootPost.author.did)) {
+      return rootPost.author.did
+    }
+    return this.auth.getAuthState()?.did || null
+  }
+
+  /**
+   * Why the active account shouldn't post the scene in the editor, if the
+   * thread or story it belongs to is bound to another account
+   */
+  private getAccountConflict(): string | null {
+    const activeDid = this.auth.getAuthState()?.did
+    if (!activeDid) return null
+
+    if (this.editingReplyTo && this.threadAccountDid && this.threadAccountDid !== activeDid) {
+      return `This thread is posted by ${this.getAccountLabel(this.threadAccountDid)}. Switch to that account to reply.`
+    }
+
+    const story = this.activeStoryNodeId ? this.activeStory : null
+    if (story?.accountDid && story.accountDid !== activeDid) {
+      return `"${story.title}" is posted by ${this.getAccountLabel(story.accountDid)}. Switch to that account to post its scenes.`
+    }
+
+    return null
+  }
+
+  private updateAccountWarning(): void {
+    const warning = document.getElementById('account-warning')
+    if (!warning) return
+
+    const conflict = this.getAccountConflict()
+    warning.textContent = conflict ? `⚠️ ${conflict}` : ''
+    warning.style.display = conflict ? 'block' : 'none'
   }
 
   private async selectPost(post: Post): Promise<void> {
+    this.unseenReplyUris.delete(post.uri)
+
     // Add the selected post to the thread path
     const newNode: ThreadNode = {
       post: post,
@@ -406,116 +1085,680 @@ class BotAdventureApp {
     this.saveThreadState()
   }
 
+  /**
+   * Check the post now at the end of the path for replies straight away,
+   * for path changes that didn't fetch them
+   */
+  private pollPathEnd(): void {
+    this.replyPoller.check().catch(error => console.error('Reply polling failed:', error))
+  }
+
   private async fetchRepliesForPost(post: Post): Promise<void> {
     try {
-      const thread = await this.bluesky.getPostThread(post.uri, 1)
-
-      if (thread.data.thread && 'replies' in thread.data.thread) {
-        const replies = (thread.data.thread as any).replies || []
-
-        // Update the node in threadPath with replies
-        const currentNode = this.threadPath[this.threadPath.length - 1]
-        currentNode.replies = replies.map((r: any) => r.post).filter(Boolean)
-      }
+      await this.refreshReplies(post)
     } catch (error) {
       console.error('Failed to fetch replies:', error)
+      this.handleAuthError(error)
     }
   }
 
-  private async loadExistingThread(url: string, isReload: boolean = false): Promise<void> {
-    const statusDiv = document.getElementById('load-status')!
-    const urlInput = document.getElementById('thread-url') as HTMLInputElement
-    const reloadBtn = document.getElementById('reload-thread') as HTMLButtonElement
-    const clearBtn = document.getElementById('clear-thread') as HTMLButtonElement
+  /**
+   * Replace the replies of the node at the end of the path. Throws if they
+   * can't be fetched, leaving the old ones in place.
+   */
+  private async refreshReplies(post: Post): Promise<void> {
+    const replies = await this.getReplies(post)
+
+    // Update the node in threadPath with replies
+    const currentNode = this.threadPath[this.threadPath.length - 1]
+    currentNode.replies = replies.posts
+    currentNode.unavailableReplies = replies.unavailable
+  }
 
-    this.showStatus(statusDiv, isReload ? 'Reloading thread...' : 'Loading thread...', 'info')
+  /**
+   * Direct replies to a post. Replies we had on the path that the AppView
+   * no longer finds come back as deleted placeholders.
+   */
+  private async getReplies(post: Post): Promise<ThreadReplies> {
+    const view = await this.bluesky.getThreadView(post.uri, 1)
+    if (!isPostView(view)) return { posts: [], unavailable: [] }
 
-    try {
-      const atUri = await this.bluesky.resolveUrlToUri(url)
-      if (!atUri) {
-        this.showStatus(statusDiv, 'Invalid URL format', 'error')
-        return
-      }
+    const known = this.threadPath.find(node => node.post.uri === post.uri)?.replies
+    return splitReplies(view.replies, known)
+  }
 
-      // Fetch the post thread
-      const thread = await this.bluesky.getPostThread(atUri, 100)
+  /**
+   * Merge replies found by polling into the post at the end of the path,
+   * if we're still there. Replies we already had but the server didn't
+   * return (e.g. ones not indexed yet) are kept.
+   */
+  private mergePolledReplies(post: Post, replies: ThreadReplies): void {
+    const currentNode = this.threadPath[this.threadPath.length - 1]
+    if (!currentNode || currentNode.post.uri !== post.uri) return
 
-      if (!thread.data.thread || !('post' in thread.data.thread)) {
-        this.showStatus(statusDiv, 'Post not found', 'error')
-        return
-      }
+    const existing = currentNode.replies || []
+    const knownUris = new Set(existing.map(reply => reply.uri))
+    const fetchedUris = new Set([...replies.posts, ...replies.unavailable].map(reply => reply.uri))
+    const newReplies = replies.posts.filter(reply => !knownUris.has(reply.uri))
 
-      const threadData = thread.data.thread as any
-      const rootPost = threadData.post
+    const placeholderKey = (items: UnavailablePost[] = []) => items.map(item => `${item.uri} ${item.status}`).join('\n')
+    const placeholdersChanged = placeholderKey(currentNode.unavailableReplies) !== placeholderKey(replies.unavailable)
 
-      // Set as root
-      this.rootPost = rootPost
-      this.threadPath = [{
-        post: rootPost,
-        replies: threadData.replies?.map((r: any) => r.post).filter(Boolean) || [],
-        depth: 0,
-      }]
+    currentNode.replies = [...replies.posts, ...existing.filter(reply => !fetchedUris.has(reply.uri))]
+    currentNode.unavailableReplies = replies.unavailable
+    if (newReplies.length === 0 && !placeholdersChanged) return
 
-      // Set the root post as the reply target
-      this.editingReplyTo = rootPost
-      this.sceneEditor.setReplyContext(rootPost)
+    newReplies.forEach(reply => this.unseenReplyUris.add(reply.uri))
+    this.renderThread()
+    this.saveThreadState()
+  }
 
-      // Keep the URL in the input field to show what's loaded
-      urlInput.value = url
+  private renderReplyPollState(state: ReplyPollState): void {
+    const status = document.getElementById('reply-poll-status')
+    if (!status) return
+
+    const formatTime = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+    switch (state.kind) {
+      case 'off':
+      case 'idle':
+        status.textContent = ''
+        break
+      case 'hidden':
+        status.textContent = 'Paused while the tab is hidden'
+        break
+      case 'checking':
+        status.textContent = 'Checking...'
+        break
+      case 'waiting':
+        status.textContent = state.backoff === 'rate-limit'
+          ? `Rate limited; next check at ${formatTime(state.nextCheck)}`
+          : state.backoff === 'error'
+            ? `Check failed; retrying at ${formatTime(state.nextCheck)}`
+            : `Next check at ${formatTime(state.nextCheck)}`
+        break
+    }
+  }
 
-      // Render the thread
-      this.renderThread()
-      this.saveThreadState()
+  private async tallyCurrentScene(): Promise<void> {
+    const currentNode = this.threadPath[this.threadPath.length - 1]
+    if (!currentNode) {
+      this.voteTallyPanel.showError('Load a thread first')
+      return
+    }
 
-      // Show the reload and clear buttons
-      if (reloadBtn) reloadBtn.style.display = 'inline-block'
-      if (clearBtn) clearBtn.style.display = 'inline-block'
+    const scenePost = currentNode.post
+    const choicesText = this.storage.loadPostedChoices(scenePost.uri) || extractChoicesFromPost(scenePost)
+    const choices = parseChoices(choicesText)
+    if (choices.length === 0) {
+      this.voteTallyPanel.showError('No choices found for this scene')
+      return
+    }
 
-      this.showStatus(statusDiv, isReload ? 'Thread reloaded!' : 'Thread loaded successfully!', 'success')
+    this.voteTallyPanel.setLoading('Counting votes...')
+
+    // Refresh replies so the count is current. If that fails, say so rather
+    // than count the old replies as if they were current.
+    try {
+      await this.refreshReplies(scenePost)
     } catch (error) {
-      console.error('Failed to load thread:', error)
-      this.showStatus(statusDiv, 'Failed to load thread', 'error')
+      console.error('Failed to fetch replies:', error)
+      this.handleAuthError(error)
+      this.voteTallyPanel.showError(`Could not refresh replies: ${getErrorMessage(error, 'unknown error')}`)
+      return
     }
-  }
 
-  private clearThread(): void {
-    // Clear thread state
-    this.rootPost = null
-    this.threadPath = []
-    this.editingReplyTo = null
+    try {
+      const replies = currentNode.replies || []
 
-    // Clear UI
-    this.threadNavigator.clear()
-    this.sceneEditor.clearReplyContext()
+      // Likes on replies count as votes for readers who didn't reply
+      const likes: ReplyLikes[] = []
+      for (const reply of replies) {
+        if (reply.likeCount && reply.likeCount > 0) {
+          likes.push({ replyUri: reply.uri, likers: await this.bluesky.getLikers(reply.uri) })
+        }
+      }
 
-    // Clear the URL input field
-    const urlInput = document.getElementById('thread-url') as HTMLInputElement
-    if (urlInput) urlInput.value = ''
+      const tally = tallyVotes(replies, choices, {
+        sceneAuthorDid: scenePost.author.did,
+        likes,
+      })
+      this.voteTallyPanel.render(tally)
 
-    // Clear saved state
-    this.storage.clearThreadState()
+      this.renderThread()
+      this.saveThreadState()
+    } catch (error) {
+      console.error('Vote tally failed:', error)
+      this.handleAuthError(error)
+      this.voteTallyPanel.showError(getErrorMessage(error, 'Failed to tally votes'))
+    }
+  }
 
-    // Hide clear and reload buttons
-    const clearBtn = document.getElementById('clear-thread') as HTMLButtonElement
-    const reloadBtn = document.getElementById('reload-thread') as HTMLButtonElement
-    if (clearBtn) clearBtn.style.display = 'none'
-    if (reloadBtn) reloadBtn.style.display = 'none'
+  private selectReplyByUri(replyUri: string): void {
+    const currentNode = this.threadPath[this.threadPath.length - 1]
+    const reply = currentNode?.replies?.find(r => r.uri === replyUri)
+    if (reply) {
+      this.selectPost(reply)
+    }
+  }
 
-    // Clear status
-    const statusDiv = document.getElementById('load-status')!
-    this.showStatus(statusDiv, 'Thread cleared - ready to create top-level post', 'success')
+  private setThreadToolsVisible(visible: boolean): void {
+    const tallyBtn = document.getElementById('tally-votes-button')
+    const mapBtn = document.getElementById('thread-map-button')
+    const statsBtn = document.getElementById('stats-button')
+    const pollRow = document.getElementById('reply-poll-row')
+    if (pollRow) pollRow.style.display = visible ? 'flex' : 'none'
+    if (tallyBtn) tallyBtn.style.display = visible ? 'inline-block' : 'none'
+    if (mapBtn) mapBtn.style.display = visible ? 'inline-block' : 'none'
+    if (statsBtn) statsBtn.style.display = visible ? 'inline-block' : 'none'
+    this.votingPanel.setCanOpen(visible)
   }
 
-  private cancelReply(): void {
-    // Clear reply state but keep the thread
-    this.editingReplyTo = null
+  private async openThreadMap(): Promise<void> {
+    if (!this.rootPost) {
+      this.threadMap.showError('Load a thread first')
+      return
+    }
 
-    // Re-render the thread view without the reply context
-    this.renderThread()
+    this.threadMap.setLoading('Fetching the full reply tree...')
 
-    // Save the updated state
-    this.saveThreadState()
-  }
+    try {
+      // 1000 is the deepest getPostThread allows
+      const tree = buildThreadTree(await this.bluesky.getThreadView(this.rootPost.uri, 1000))
+      if (!tree) {
+        this.threadMap.showError('Post not found')
+        return
+      }
+
+      this.threadTree = tree
+      this.threadMap.render(tree, this.threadPath.map(node => node.post))
+    } catch (error) {
+      console.error('Failed to load thread map:', error)
+      this.handleAuthError(error)
+      this.threadMap.showError(getErrorMessage(error, 'Failed to load thread map'))
+    }
+  }
+
+  private jumpToMapNode(uri: string): void {
+    if (!this.jumpToThreadPost(uri)) return
+    this.threadMap.render(this.threadTree!, this.threadPath.map(node => node.post))
+  }
+
+  /**
+   * Show a post from the loaded reply tree in the navigator. Returns false
+   * if it isn't in the tree.
+   */
+  private jumpToThreadPost(uri: string): boolean {
+    if (!this.threadTree) return false
+
+    const path = findPathTo(this.threadTree, uri)
+    if (!path) return false
+
+    this.showTreePath(path)
+    document.getElementById('thread-view')?.scrollIntoView({ behavior: 'smooth' })
+    return true
+  }
+
+  private async openStats(): Promise<void> {
+    if (!this.rootPost) {
+      this.statsPanel.showError('Load a thread first')
+      return
+    }
+
+    this.statsPanel.setLoading('Fetching the full reply tree...')
+
+    try {
+      // 1000 is the deepest getPostThread allows
+      const tree = buildThreadTree(await this.bluesky.getThreadView(this.rootPost.uri, 1000))
+      if (!tree) {
+        this.statsPanel.showError('Post not found')
+        return
+      }
+
+      // Scenes published from the planner are labelled with their titles
+      const titles = new Map<string, string>()
+      this.stories.forEach(story => story.nodes.forEach(node => {
+        if (node.post) titles.set(node.post.uri, node.title)
+      }))
+
+      this.threadTree = tree
+      this.engagementStats = buildEngagementStats(tree, titles)
+      this.statsPanel.render(this.engagementStats)
+    } catch (error) {
+      console.error('Failed to load engagement stats:', error)
+      this.handleAuthError(error)
+      this.statsPanel.showError(getErrorMessage(error, 'Failed to load engagement stats'))
+    }
+  }
+
+  private exportStats(): void {
+    if (!this.engagementStats) return
+
+    const csv = new Blob([engagementStatsToCsv(this.engagementStats)], { type: 'text/csv' })
+    const url = URL.createObjectURL(csv)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `engagement-${this.engagementStats.generatedAt.slice(0, 10)}.csv`
+    link.click()
+    setTimeout(() => URL.revokeObjectURL(url), 1000)
+  }
+
+  /**
+   * Rebuild the navigator path from a thread tree path, replies included,
+   * and make its last post the reply target
+   */
+  private showTreePath(path: ThreadTreeNode[]): void {
+    this.threadPath = path.map((node, index) => ({
+      post: node.post,
+      replies: node.children.map(child => child.post),
+      depth: index,
+    }))
+
+    const target = path[path.length - 1].post
+    this.editingReplyTo = target
+    this.sceneEditor.setReplyContext(target)
+
+    this.renderThread()
+    this.saveThreadState()
+    this.pollPathEnd()
+  }
+
+  private openVotingWindow(deadline: Date, replyUnder: VotingWindow['replyUnder']): void {
+    const statusDiv = document.getElementById('voting-status')!
+    const currentNode = this.threadPath[this.threadPath.length - 1]
+    if (!currentNode || !this.rootPost) {
+      this.showStatus(statusDiv, 'Load a thread first', 'error')
+      return
+    }
+
+    const scenePost = currentNode.post
+    if (scenePost.author.did !== this.rootPost.author.did) {
+      this.showStatus(statusDiv, 'Select a scene post rather than a reader reply', 'error')
+      return
+    }
+
+    const choices = this.storage.loadPostedChoices(scenePost.uri) || extractChoicesFromPost(scenePost)
+    if (parseChoices(choices).length === 0) {
+      this.showStatus(statusDiv, 'No choices found for this scene', 'error')
+      return
+    }
+
+    this.votingWindows.open(scenePost, { uri: this.rootPost.uri, cid: this.rootPost.cid }, choices, deadline, replyUnder)
+    this.showStatus(statusDiv, `Voting closes ${deadline.toLocaleString()}`, 'success')
+  }
+
+  /**
+   * Act on a closed vote: post the planned scene for the winning choice if
+   * it's already written, otherwise load a draft that replies in the right place
+   */
+  private async advanceToWinner(window: VotingWindow): Promise<void> {
+    const planned = this.findPlannedBranch(window)
+
+    if (planned?.node.post) {
+      this.votingWindows.update(window.id, { outcome: `"${planned.node.title}" was already posted` })
+      return
+    }
+
+    const scene = planned?.node.scene
+    if (planned && scene && (scene.postText.trim() || scene.imageText.trim())) {
+      try {
+        await this.autoPostPlannedScene(window, planned.story, planned.node)
+        return
+      } catch (error) {
+        console.error('Auto-post failed:', error)
+        this.handleAuthError(error)
+        this.votingWindows.update(window.id, { error: `Auto-post failed: ${getErrorMessage(error, 'unknown error')}` })
+      }
+    }
+
+    if (this.isEditorEmpty()) {
+      await this.startWinnerDraft(window.id)
+    } else {
+      // Don't overwrite work in progress
+      this.votingWindows.update(window.id, { outcome: 'The editor has unsaved work. Use "Start draft" when you are ready.' })
+    }
+  }
+
+  /**
+   * The story plan scene behind the winning choice, found through the
+   * branch that leaves the voted scene's node
+   */
+  private findPlannedBranch(window: VotingWindow): { story: Story; node: StoryNode } | null {
+    const winner = window.winner
+    if (!winner) return null
+
+    const choices = parseChoices(window.choices)
+    for (const story of this.storage.loadStories()) {
+      const sceneNode = findNodeByPostUri(story, window.scene.uri)
+      if (!sceneNode) continue
+
+      const edge = getOutgoingEdges(story, sceneNode.id)
+        .find(e => matchReplyToChoice(e.choice, choices) === winner.choiceIndex)
+      const node = edge && getNode(story, edge.to)
+      if (node) return { story, node }
+    }
+    return null
+  }
+
+  private getVoteTarget(window: VotingWindow): ReplyRef {
+    const parent = window.replyUnder === 'winning-reply' && window.winner?.reply
+      ? window.winner.reply
+      : window.scene
+    return {
+      root: window.root,
+      parent: { uri: parent.uri, cid: parent.cid },
+    }
+  }
+
+  private async autoPostPlannedScene(window: VotingWindow, story: Story, node: StoryNode): Promise<void> {
+    if (this.auth.getAuthState()?.did !== window.scene.authorDid) {
+      throw new Error('The connected account did not post the voted scene')
+    }
+
+    const statusDiv = document.getElementById('voting-status')!
+    const scene = await this.storage.loadStoryScene(story.id, node)
+    const { postText, imageText, choices, backgroundImage } = scene
+    const text = buildSceneText(postText, imageText, choices, false)
+    const overLimit = describeOverLimit(text, POST_TEXT_LIMIT, `"${node.title}"`)
+    if (overLimit) {
+      throw new Error(overLimit)
+    }
+    const linkCardError = validateLinkCard(scene.linkCard)
+    if (linkCardError) {
+      throw new Error(linkCardError)
+    }
+
+    this.showStatus(statusDiv, `Posting "${node.title}"...`, 'info')
+    const target = this.getVoteTarget(window)
+    const media = await this.renderSceneMedia(imageText, choices, backgroundImage, statusDiv, null, scene.imagePanels)
+    const postResponse = await this.publishScene(text, media, {
+      replyTo: target,
+      interactions: scene.interactions ?? story.interactions,
+      labels: scene.labels ?? story.labels,
+      linkCard: scene.linkCard,
+      statusDiv,
+    })
+    this.recordPublishedScene(postResponse, choices, story.id, node.id)
+
+    this.votingWindows.update(window.id, { outcome: `Posted planned scene "${node.title}"`, error: undefined })
+    this.showStatus(statusDiv, `Posted "${node.title}" for the winning choice`, 'success')
+    await this.refreshRepliesUnder(target.parent.uri)
+  }
+
+  /**
+   * Navigate to where the next scene goes and load a draft for the winning
+   * choice: the planned scene if there is one, otherwise a blank reply
+   */
+  private async startWinnerDraft(id: string): Promise<void> {
+    const window = this.votingWindows.getWindows().find(w => w.id === id)
+    if (!window?.winner) return
+
+    try {
+      const found = await this.navigateToVoteTarget(window)
+      if (!found) {
+        this.votingWindows.update(window.id, { error: 'Could not find the reply target in the thread. It may have been deleted.' })
+        return
+      }
+
+      const planned = this.findPlannedBranch(window)
+      if (planned && !planned.node.post) {
+        if (this.activeStory?.id !== planned.story.id) {
+          this.switchStory(planned.story.id)
+        }
+        await this.loadStoryScene(planned.node)
+      } else {
+        await this.openSceneInDraft(
+          `Winner: ${window.winner.label}`,
+          { postText: `You chose: ${window.winner.label}\n\n`, imageText: '', choices: '' }
+        )
+      }
+
+      this.votingWindows.update(window.id, { outcome: `Draft for "${window.winner.label}" loaded in the editor`, error: undefined })
+      document.getElementById('editor-section')?.scrollIntoView({ behavior: 'smooth' })
+    } catch (error) {
+      console.error('Failed to start draft:', error)
+      this.votingWindows.update(window.id, { error: getErrorMessage(error, 'Failed to load the thread') })
+    }
+  }
+
+  /**
+   * Point the thread view and editor at the post the next scene replies to.
+   * Returns false if that post is no longer in the thread.
+   */
+  private async navigateToVoteTarget(window: VotingWindow): Promise<boolean> {
+    const target = this.getVoteTarget(window).parent
+
+    // The scene is on the current path: step back to it and pick the reply
+    const sceneIndex = this.rootPost?.uri === window.root.uri
+      ? this.threadPath.findIndex(node => node.post.uri === window.scene.uri)
+      : -1
+    if (sceneIndex >= 0) {
+      const sceneNode = this.threadPath[sceneIndex]
+      this.resetThreadPath(sceneIndex, sceneNode.post)
+      await this.fetchRepliesForPost(sceneNode.post)
+
+      if (target.uri === window.scene.uri) {
+        this.renderThread()
+        this.saveThreadState()
+        return true
+      }
+
+      const reply = sceneNode.replies?.find(r => r.uri === target.uri)
+      if (!reply) return false
+      await this.selectPost(reply)
+      return true
+    }
+
+    // Otherwise load the whole thread and walk down to the target
+    const tree = buildThreadTree(await this.bluesky.getThreadView(window.root.uri, 1000))
+    const path = tree && findPathTo(tree, target.uri)
+    if (!tree || !path) return false
+
+    this.rootPost = tree.post
+    this.threadAccountDid = this.getThreadAccount(tree.post)
+    this.threadTree = tree
+    const urlInput = document.getElementById('thread-url') as HTMLInputElement
+    if (urlInput) {
+      urlInput.value = this.getPostUrl(tree.post)
+    }
+
+    const reloadBtn = document.getElementById('reload-thread') as HTMLButtonElement
+    const clearBtn = document.getElementById('clear-thread') as HTMLButtonElement
+    if (reloadBtn) reloadBtn.style.display = 'inline-block'
+    if (clearBtn) clearBtn.style.display = 'inline-block'
+    this.setThreadToolsVisible(true)
+
+    this.showTreePath(path)
+    return true
+  }
+
+  private isEditorEmpty(): boolean {
+    const data = this.sceneEditor.getSceneData()
+    return !data.postText.trim() && !data.imageText.trim() && !data.choices.trim() &&
+      !data.backgroundImage && !this.sceneEditor.getAudioFile()
+  }
+
+  private async loadExistingThread(url: string, isReload: boolean = false): Promise<void> {
+    const statusDiv = document.getElementById('load-status')!
+    const urlInput = document.getElementById('thread-url') as HTMLInputElement
+    const reloadBtn = document.getElementById('reload-thread') as HTMLButtonElement
+    const clearBtn = document.getElementById('clear-thread') as HTMLButtonElement
+
+    this.showStatus(statusDiv, isReload ? 'Reloading thread...' : 'Loading thread...', 'info')
+
+    try {
+      const atUri = await this.bluesky.resolveUrlToUri(url)
+      if (!atUri) {
+        this.showStatus(statusDiv, 'Invalid URL format', 'error')
+        return
+      }
+
+      // Reloading the loaded thread keeps the path navigated into it
+      if (isReload && this.rootPost?.uri === atUri && this.threadPath.length > 1) {
+        await this.reloadThreadPath(statusDiv)
+        return
+      }
+
+      // Fetch the post thread
+      const view = await this.bluesky.getThreadView(atUri, 100)
+
+      if (!isPostView(view)) {
+        this.showStatus(statusDiv, view.status === 'blocked' ? 'That post is from a blocked account' : 'Post not found', 'error')
+        return
+      }
+
+      const rootPost = view.post
+      const replies = splitReplies(view.replies)
+
+      // Set as root; a reload keeps the thread's account
+      this.rootPost = rootPost
+      if (!isReload || !this.threadAccountDid) {
+        this.threadAccountDid = this.getThreadAccount(rootPost)
+      }
+      this.threadPath = [{
+        post: rootPost,
+        replies: replies.posts,
+        unavailableReplies: replies.unavailable,
+        depth: 0,
+      }]
+
+      // Set the root post as the reply target
+      this.editingReplyTo = rootPost
+      this.sceneEditor.setReplyContext(rootPost)
+
+      // Keep the URL in the input field to show what's loaded
+      urlInput.value = url
+
+      // Render the thread
+      this.renderThread()
+      this.saveThreadState()
+
+      // Show the reload, tally and clear buttons
+      if (reloadBtn) reloadBtn.style.display = 'inline-block'
+      if (clearBtn) clearBtn.style.display = 'inline-block'
+      this.setThreadToolsVisible(true)
+
+      this.showStatus(statusDiv, isReload ? 'Thread reloaded!' : 'Thread loaded successfully!', 'success')
+    } catch (error) {
+      console.error('Failed to load thread:', error)
+      this.handleAuthError(error)
+      this.showStatus(statusDiv, error instanceof BlueskyError ? error.message : 'Failed to load thread', 'error')
+    }
+  }
+
+  /**
+   * Re-fetch every post on the current path with its replies and counts.
+   * If a post was deleted or can't be reached any more, the path is cut
+   * back to the deepest post before it.
+   */
+  private async reloadThreadPath(statusDiv: HTMLElement): Promise<void> {
+    const oldPath = this.threadPath
+    const oldTargetUri = this.editingReplyTo?.uri
+    const refreshed: ThreadNode[] = []
+    let lost: { post: Post; reason: 'deleted' | 'blocked' | 'unreachable' } | null = null
+
+    for (const node of oldPath) {
+      const view = await this.bluesky.getThreadView(node.post.uri, 1)
+      if (!isPostView(view)) {
+        // We had this post loaded, so not found means it was deleted
+        lost = { post: node.post, reason: view.status === 'blocked' ? 'blocked' : 'deleted' }
+        break
+      }
+
+      // Replies hidden by the author or taken down drop out of the parent's replies
+      const parent = refreshed[refreshed.length - 1]
+      if (parent && !parent.replies?.some(reply => reply.uri === node.post.uri)) {
+        lost = { post: node.post, reason: 'unreachable' }
+        break
+      }
+
+      const replies = splitReplies(view.replies, node.replies)
+      refreshed.push({ post: view.post, replies: replies.posts, unavailableReplies: replies.unavailable, depth: node.depth })
+    }
+
+    if (refreshed.length === 0) {
+      this.showStatus(statusDiv, 'The thread\'s first post was deleted or can\'t be reached', 'error')
+      return
+    }
+
+    this.rootPost = refreshed[0].post
+    this.threadPath = refreshed
+
+    // Keep replying to the same post if it's still on the path
+    if (oldTargetUri) {
+      const target = refreshed.find(node => node.post.uri === oldTargetUri)?.post ||
+        refreshed[refreshed.length - 1].post
+      this.editingReplyTo = target
+      this.sceneEditor.setReplyContext(target)
+    }
+
+    this.renderThread()
+    this.saveThreadState()
+
+    if (lost) {
+      const removed = oldPath.length - refreshed.length
+      const why = lost.reason === 'deleted' ? 'was deleted'
+        : lost.reason === 'blocked' ? 'is blocked'
+        : 'is no longer in the thread'
+      this.showStatus(
+        statusDiv,
+        `Thread reloaded. @${lost.post.author.handle}'s post ${why}, so ` +
+          `${removed === 1 ? '1 post was' : `${removed} posts were`} dropped from the path; showing the deepest one still there.`,
+        'info'
+      )
+    } else {
+      this.showStatus(statusDiv, 'Thread reloaded!', 'success')
+    }
+  }
+
+  private clearThread(): void {
+    // Clear thread state
+    this.threadAccountDid = null
+    this.rootPost = null
+    this.threadPath = []
+    this.editingReplyTo = null
+
+    // Clear UI
+    this.threadNavigator.clear()
+    this.sceneEditor.clearReplyContext()
+
+    // Clear the URL input field
+    const urlInput = document.getElementById('thread-url') as HTMLInputElement
+    if (urlInput) urlInput.value = ''
+
+    // Clear saved state
+    this.storage.clearThreadState()
+
+    // Hide clear and reload buttons
+    const clearBtn = document.getElementById('clear-thread') as HTMLButtonElement
+    const reloadBtn = document.getElementById('reload-thread') as HTMLButtonElement
+    if (clearBtn) clearBtn.style.display = 'none'
+    if (reloadBtn) reloadBtn.style.display = 'none'
+    this.pollPathEnd()
+    this.setThreadToolsVisible(false)
+    this.voteTallyPanel.hide()
+    this.threadMap.hide()
+    this.unseenReplyUris.clear()
+    this.statsPanel.hide()
+    this.engagementStats = null
+    this.threadTree = null
+    this.sceneEditor.setQuoteOptions([])
+    this.updateAccountWarning()
+
+    // Clear status
+    const statusDiv = document.getElementById('load-status')!
+    this.showStatus(statusDiv, 'Thread cleared - ready to create top-level post', 'success')
+  }
+
+  private cancelReply(): void {
+    // Clear reply state but keep the thread
+    this.editingReplyTo = null
+
+    // Re-render the thread view without the reply context
+    this.renderThread()
+
+    // Save the updated state
+    this.saveThreadState()
+  }
 
   private async postToBluesky(postText: string, imageText: string, choices: string, backgroundImage?: string): Promise<void> {
     if (!this.auth.isUserAuthenticated()) {
@@ -524,18 +1767,26 @@ class BotAdventureApp {
     }
 
     const statusDiv = document.getElementById('post-status')!
-    const audioConversionStatus = document.getElementById('audio-conversion-status')!
-    const choicesList = choices
-      .split('\n')
-      .map(c => c.trim())
-      .filter(c => c.length > 0)
+    const conflict = this.getAccountConflict()
+    if (conflict) {
+      this.showStatus(statusDiv, conflict, 'error')
+      return
+    }
 
-    // Get audio file if present
-    const audioFile = this.sceneEditor.getAudioFile()
+    const parts = this.prepareSceneText(postText, imageText, choices, statusDiv)
+    if (parts === null) return
 
-    // Validate that we have something to post
-    if (!postText.trim() && !imageText.trim() && !audioFile) {
-      this.showStatus(statusDiv, 'Please enter post text, image text, or attach audio', 'error')
+    const interactions = this.sceneEditor.getInteractions()
+    const interactionError = validateInteractions(interactions)
+    if (interactionError) {
+      this.showStatus(statusDiv, interactionError, 'error')
+      return
+    }
+
+    const linkCard = this.sceneEditor.getLinkCard()
+    const linkCardError = validateLinkCard(linkCard)
+    if (linkCardError) {
+      this.showStatus(statusDiv, linkCardError, 'error')
       return
     }
 
@@ -543,145 +1794,49 @@ class BotAdventureApp {
     this.showStatus(statusDiv, 'Posting...', 'info')
 
     try {
-      let postResponse
-
-      // Check if we have audio to convert to video
-      if (audioFile) {
-        let videoBlob: Blob
-
-        // Check if we already have a converted video
-        const convertedVideo = this.sceneEditor.getConvertedVideoBlob()
-        if (convertedVideo) {
-          // Use the pre-converted video
-          videoBlob = convertedVideo
-          this.showStatus(statusDiv, 'Using pre-converted video...', 'info')
-        } else {
-          // Import the conversion function
-          const { createVideoFromAudio } = await import('./utils/audioToVideo')
-
-          // Show conversion status
-          if (audioConversionStatus) {
-            audioConversionStatus.style.display = 'block'
-          }
-          this.showStatus(statusDiv, 'Converting audio to video...', 'info')
-
-          // Get background image file if available
-          let backgroundImageFile: File | null = null
-          if (backgroundImage) {
-            // Convert data URL to File
-            const response = await fetch(backgroundImage)
-            const blob = await response.blob()
-            backgroundImageFile = new File([blob], 'background.jpg', { type: 'image/jpeg' })
-          }
-
-          // Convert audio to video
-          videoBlob = await createVideoFromAudio(audioFile, backgroundImageFile)
-
-          // Hide conversion status
-          if (audioConversionStatus) {
-            audioConversionStatus.style.display = 'none'
-          }
-        }
+      // Resolve mentions before generating or uploading media, so an unknown
+      // handle fails fast instead of after a long upload
+      const partFacets: AppBskyRichtextFacet.Main[][] = []
+      for (const part of parts) {
+        partFacets.push(await this.bluesky.detectFacets(part))
+      }
 
-        this.showStatus(statusDiv, 'Uploading video...', 'info')
-
-        // Upload video to Bluesky
-        const uploadResponse = await this.bluesky.uploadVideo(videoBlob)
-
-        // Use the same alt text as we would for images
-        const altText = this.combineSceneAndChoices(imageText, choices)
-
-        postResponse = await this.bluesky.createPost({
-          text: postText.trim() || `🎵 Audio Post`,
-          videoBlob: uploadResponse,
-          videoAlt: altText,
-          replyTo: this.editingReplyTo ? {
-            root: {
-              uri: this.rootPost ? this.rootPost.uri : this.editingReplyTo.uri,
-              cid: this.rootPost ? this.rootPost.cid : this.editingReplyTo.cid,
-            },
-            parent: {
-              uri: this.editingReplyTo.uri,
-              cid: this.editingReplyTo.cid,
-            },
-          } : undefined,
-        })
-      } else if (imageText.trim()) {
-        // Generate and post with image
-        this.showStatus(statusDiv, 'Generating image...', 'info')
-        const imageResult = await this.imageGenerator.generateSceneImage(imageText, choicesList, backgroundImage)
-
-        this.showStatus(statusDiv, 'Uploading image...', 'info')
-        const imageBlob = await this.bluesky.uploadImage(imageResult.blob)
-
-        const altText = this.combineSceneAndChoices(imageText, choices)
-
-        postResponse = await this.bluesky.createPost({
-          text: postText.trim(),
-          imageBlob,
-          imageAlt: altText,
-          imageDimensions: imageResult.dimensions,
-          replyTo: this.editingReplyTo ? {
-            root: {
-              uri: this.rootPost ? this.rootPost.uri : this.editingReplyTo.uri,
-              cid: this.rootPost ? this.rootPost.cid : this.editingReplyTo.cid,
-            },
-            parent: {
-              uri: this.editingReplyTo.uri,
-              cid: this.editingReplyTo.cid,
-            },
-          } : undefined,
-        })
-      } else {
-        // Text-only post
-        let textToPost = postText.trim()
-
-        // If we have choices but no image, append them to the post text
-        if (choicesList.length > 0) {
-          const choicesText = choices.trim()
-          if (choicesText) {
-            textToPost = `${textToPost}\n\nWhat do you do?\n${choicesText}`
-          }
-        }
+      const media = await this.renderSceneMedia(imageText, choices, backgroundImage, statusDiv)
+      const responses = await this.publishSceneParts(parts, partFacets, media, {
+        replyTo: this.getReplyRef(),
+        quote: this.getQuoteRef(),
+        interactions,
+        labels: this.sceneEditor.getLabels(),
+        linkCard,
+        statusDiv,
+      })
+      const postResponse = responses[responses.length - 1]
 
-        // Check character limit
-        if (textToPost.length > BLUESKY_CHAR_LIMIT) {
-          this.showStatus(statusDiv, `Text exceeds ${BLUESKY_CHAR_LIMIT} character limit. Consider using image text for longer content.`, 'error')
-          this.sceneEditor.setPostButtonState(false)
-          return
-        }
+      this.recordPublishedScene(postResponse, choices, this.activeStory?.id, this.activeStoryNodeId || undefined)
+      this.setActiveStoryNode(null)
 
-        postResponse = await this.bluesky.createPost({
-          text: textToPost,
-          replyTo: this.editingReplyTo ? {
-            root: {
-              uri: this.rootPost ? this.rootPost.uri : this.editingReplyTo.uri,
-              cid: this.rootPost ? this.rootPost.cid : this.editingReplyTo.cid,
-            },
-            parent: {
-              uri: this.editingReplyTo.uri,
-              cid: this.editingReplyTo.cid,
-            },
-          } : undefined,
-        })
+      // Fetch the actual posts from Bluesky to get the complete data including embeds
+      const newPosts: Post[] = []
+      for (const response of responses) {
+        const view = await this.bluesky.getThreadView(response.uri, 1)
+        if (!isPostView(view)) throw new Error('Posted, but the new post isn\'t visible yet. Reload the thread in a moment.')
+        newPosts.push(view.post)
       }
-
-      // Fetch the actual post from Bluesky to get the complete data including embed
-      const threadResponse = await this.bluesky.getPostThread(postResponse.uri, 1)
-      const newPost = threadResponse.data.thread.post as Post
+      const newPost = newPosts[newPosts.length - 1]
 
       if (this.editingReplyTo) {
         // This was a reply - add it to the current node's replies
         const currentNode = this.threadPath[this.threadPath.length - 1]
         if (currentNode) {
           if (!currentNode.replies) currentNode.replies = []
-          currentNode.replies.push(newPost)
+          currentNode.replies.push(newPosts[0])
         }
 
         // Clear reply mode
         this.sceneEditor.clearReplyContext()
 
-        // Select the new post to make it the current post
+        // Select the last part to make it the current post
+        this.appendSplitParts(newPosts)
         this.selectPost(newPost)
 
         // Render and show success
@@ -695,13 +1850,17 @@ class BotAdventureApp {
           </div>
         `
       } else {
-        // This was a new top-level post - make it the root
-        this.rootPost = newPost
-        this.threadPath = [{
+        // This was a new top-level post - make it the root, with the
+        // last part as the current post
+        this.rootPost = newPosts[0]
+        this.threadAccountDid = newPost.author.did
+        this.threadPath = []
+        this.appendSplitParts(newPosts)
+        this.threadPath.push({
           post: newPost,
           replies: [],
-          depth: 0,
-        }]
+          depth: this.threadPath.length,
+        })
 
         // Now set this post as the reply target
         this.editingReplyTo = newPost
@@ -728,15 +1887,651 @@ class BotAdventureApp {
       this.saveThreadState()
       this.sceneEditor.clearForm()
 
-    } catch (error: any) {
+    } catch (error) {
       console.error('Post failed:', error)
-      const errorMessage = error.message || 'Failed to post. Please try again.'
+      this.handleAuthError(error)
+      const errorMessage = getErrorMessage(error, 'Failed to post. Please try again.')
       this.showStatus(statusDiv, errorMessage, 'error')
     } finally {
       this.sceneEditor.setPostButtonState(false)
     }
   }
 
+  private async scheduleScene(postText: string, imageText: string, choices: string, publishAt: Date, backgroundImage?: string): Promise<void> {
+    if (!this.auth.isUserAuthenticated()) {
+      alert('Please connect to Bluesky first')
+      return
+    }
+
+    const statusDiv = document.getElementById('post-status')!
+    const conflict = this.getAccountConflict()
+    if (conflict) {
+      this.showStatus(statusDiv, conflict, 'error')
+      return
+    }
+
+    if (publishAt.getTime() <= Date.now()) {
+      this.showStatus(statusDiv, 'Pick a publish time in the future', 'error')
+      return
+    }
+
+    const parts = this.prepareSceneText(postText, imageText, choices, statusDiv)
+    if (parts === null) return
+
+    const interactions = this.sceneEditor.getInteractions()
+    const interactionError = validateInteractions(interactions)
+    if (interactionError) {
+      this.showStatus(statusDiv, interactionError, 'error')
+      return
+    }
+
+    const linkCard = this.sceneEditor.getLinkCard()
+    const linkCardError = validateLinkCard(linkCard)
+    if (linkCardError) {
+      this.showStatus(statusDiv, linkCardError, 'error')
+      return
+    }
+
+    this.sceneEditor.setPostButtonState(true)
+    this.showStatus(statusDiv, 'Preparing scheduled post...', 'info')
+
+    try {
+      // Check mentions now; they are resolved again when the post goes out
+      for (const part of parts) {
+        await this.bluesky.detectFacets(part)
+      }
+
+      // Render media now so the queue holds exactly what will be posted
+      const media = await this.renderSceneMedia(imageText, choices, backgroundImage, statusDiv)
+
+      const item: QueuedPost = {
+        id: crypto.randomUUID(),
+        publishAt: publishAt.toISOString(),
+        status: 'scheduled',
+        text: parts[parts.length - 1],
+        leadingParts: parts.length > 1 ? parts.slice(0, -1) : undefined,
+        choices: choices.trim(),
+        media: media.length ? media : undefined,
+        replyTo: this.getReplyRef(),
+        replyToHandle: this.editingReplyTo?.author.handle,
+        quote: this.getQuoteRef(),
+        interactions,
+        labels: this.sceneEditor.getLabels(),
+        linkCard: media.length ? undefined : linkCard,
+        accountHandle: this.auth.getAuthState()?.handle || '',
+        accountDid: this.auth.getAuthState()?.did,
+        storyId: this.activeStory?.id,
+        storyNodeId: this.activeStoryNodeId || undefined,
+        createdAt: new Date().toISOString(),
+      }
+      await this.publishQueue.add(item)
+
+      this.showStatus(statusDiv, `Scheduled for ${publishAt.toLocaleString()}`, 'success')
+      this.setActiveStoryNode(null)
+      this.sceneEditor.clearForm()
+    } catch (error) {
+      console.error('Scheduling failed:', error)
+      this.handleAuthError(error)
+      this.showStatus(statusDiv, getErrorMessage(error, 'Failed to schedule post'), 'error')
+    } finally {
+      this.sceneEditor.setPostButtonState(false)
+    }
+  }
+
+  /**
+   * The account a scheduled post goes out from. Posts scheduled before
+   * multi-account support only recorded the handle.
+   */
+  private getQueuedPostAccount(item: QueuedPost): string | undefined {
+    return item.accountDid || this.auth.getAccounts().find(a => a.handle === item.accountHandle)?.did
+  }
+
+  private async publishQueuedPost(item: QueuedPost): Promise<PostResponse> {
+    try {
+      return await this.publishQueuedPostAs(item)
+    } catch (error) {
+      // Expire the scheduling account, not whichever one is active
+      const accountDid = this.getQueuedPostAccount(item)
+      if (accountDid) this.handleAuthError(error, accountDid)
+      throw error
+    }
+  }
+
+  private async publishQueuedPostAs(item: QueuedPost): Promise<PostResponse> {
+    const accountDid = this.getQueuedPostAccount(item)
+    const agent = accountDid && this.auth.getAgentFor(accountDid)
+    if (!agent) {
+      throw new Error(`@${item.accountHandle} is not signed in`)
+    }
+
+    // Post from the scheduling account even if another one is active
+    const webAppUrl = this.auth.getAccounts().find(a => a.did === accountDid)?.webAppUrl || DEFAULT_WEB_APP_URL
+    const bluesky = new BlueskyService(() => agent, () => item.accountHandle, () => webAppUrl)
+    const parts = [...(item.leadingParts || []), item.text]
+    const partFacets: AppBskyRichtextFacet.Main[][] = []
+    for (const part of parts) {
+      partFacets.push(await bluesky.detectFacets(part))
+    }
+    const responses = await this.publishSceneParts(parts, partFacets, item.media || [], {
+      replyTo: item.replyTo,
+      quote: item.quote,
+      interactions: item.interactions,
+      labels: item.labels,
+      linkCard: item.linkCard,
+      bluesky,
+    })
+    const postResponse = responses[responses.length - 1]
+    this.recordPublishedScene(postResponse, item.choices, item.storyId, item.storyNodeId)
+
+    if (item.replyTo) {
+      await this.refreshRepliesUnder(item.replyTo.parent.uri)
+    }
+
+    return postResponse
+  }
+
+  /**
+   * Show a reply posted in the background if it went under the post
+   * we're looking at
+   */
+  private async refreshRepliesUnder(parentUri: string): Promise<void> {
+    const currentNode = this.threadPath[this.threadPath.length - 1]
+    if (currentNode && currentNode.post.uri === parentUri) {
+      await this.fetchRepliesForPost(currentNode.post)
+      this.renderThread()
+      this.saveThreadState()
+    }
+  }
+
+  /**
+   * Build the final post text and check it against the limit, splitting it
+   * into parts when that is turned on. Returns null (after showing an
+   * error) when the scene can't be posted.
+   */
+  private prepareSceneText(postText: string, imageText: string, choices: string, statusDiv: HTMLElement): string[] | null {
+    const audioFile = this.sceneEditor.getAudioFile()
+
+    // Validate that we have something to post
+    if (!postText.trim() && !imageText.trim() && !audioFile) {
+      this.showStatus(statusDiv, 'Please enter post text, image text, or attach audio', 'error')
+      return null
+    }
+
+    // Check the limit, splitting into parts when that is turned on
+    const splitSettings = this.storage.loadSplitSettings()
+    const plan = planSceneText(postText, imageText, choices, !!audioFile, POST_TEXT_LIMIT, splitSettings)
+    if (plan.error) {
+      const hint = splitSettings.enabled ? '' : ' Consider using image text for longer content, or splitting it into replies.'
+      this.showStatus(statusDiv, `${plan.error}.${hint}`, 'error')
+      return null
+    }
+
+    return plan.parts
+  }
+
+  /**
+   * Render one image per panel of the scene, or its video when audio is
+   * attached. Defaults to the audio and panel settings in the editor.
+   */
+  private async renderSceneMedia(
+    imageText: string,
+    choices: string,
+    backgroundImage: string | undefined,
+    statusDiv: HTMLElement,
+    audioFile: File | null = this.sceneEditor.getAudioFile(),
+    imagePanels: ImagePanelSettings[] = this.sceneEditor.getSceneData().imagePanels || []
+  ): Promise<SceneMedia[]> {
+    const audioConversionStatus = document.getElementById('audio-conversion-status')!
+    const choicesList = choices
+      .split('\n')
+      .map(c => c.trim())
+      .filter(c => c.length > 0)
+    const panels = splitPanels(imageText)
+
+    // The video carries the whole scene in its alt text, cut to fit
+    const altText = truncateToLimit(this.combineSceneAndChoices(panels.join('\n\n'), choices), VIDEO_ALT_LIMIT)
+
+    // Check if we have audio to convert to video
+    if (audioFile) {
+      // Check if we already have a converted video
+      const convertedVideo = audioFile === this.sceneEditor.getAudioFile() ? this.sceneEditor.getConvertedVideoBlob() : null
+      if (convertedVideo) {
+        this.showStatus(statusDiv, 'Using pre-converted video...', 'info')
+        return [{ kind: 'video', blob: convertedVideo, alt: altText }]
+      }
+
+      // Import the conversion function
+      const { createVideoFromAudio } = await import('./utils/audioToVideo')
+
+      // Show conversion status
+      if (audioConversionStatus) {
+        audioConversionStatus.style.display = 'block'
+      }
+      this.showStatus(statusDiv, 'Converting audio to video...', 'info')
+
+      // Get background image file if available
+      let backgroundImageFile: File | null = null
+      if (backgroundImage) {
+        // Convert data URL to File
+        const response = await fetch(backgroundImage)
+        const blob = await response.blob()
+        backgroundImageFile = new File([blob], 'background.jpg', { type: 'image/jpeg' })
+      }
+
+      // Convert audio to video
+      const videoBlob = await createVideoFromAudio(audioFile, backgroundImageFile)
+
+      // Hide conversion status
+      if (audioConversionStatus) {
+        audioConversionStatus.style.display = 'none'
+      }
+
+      return [{ kind: 'video', blob: videoBlob, alt: altText }]
+    }
+
+    if (panels.length > MAX_IMAGE_PANELS) {
+      throw new Error(`A scene can have at most ${MAX_IMAGE_PANELS} image panels`)
+    }
+
+    // Written alt text must fit; generated alt text is cut to fit
+    const altTexts = panels.map((panel, index) => {
+      const isLast = index === panels.length - 1
+      const written = imagePanels[index]?.alt?.trim()
+      if (!written) {
+        return truncateToLimit(this.combineSceneAndChoices(panel, isLast ? choices : ''), IMAGE_ALT_LIMIT)
+      }
+      const overLimit = describeOverLimit(written, IMAGE_ALT_LIMIT, `Alt text for panel ${index + 1}`)
+      if (overLimit) {
+        throw new Error(overLimit)
+      }
+      return written
+    })
+
+    // Choices only appear on the last panel
+    const media: SceneMedia[] = []
+    for (const [index, panel] of panels.entries()) {
+      const isLast = index === panels.length - 1
+      const settings = imagePanels[index] || {}
+      this.showStatus(statusDiv, panels.length > 1 ? `Generating image ${index + 1} of ${panels.length}...` : 'Generating image...', 'info')
+      const imageResult = await this.imageGenerator.generateSceneImage(
+        panel,
+        isLast ? choicesList : [],
+        backgroundImage,
+        settings.aspectRatio
+      )
+      media.push({
+        kind: 'image',
+        blob: imageResult.blob,
+        alt: altTexts[index],
+        dimensions: imageResult.dimensions,
+      })
+    }
+    return media
+  }
+
+  /**
+   * Post the parts of a split scene as a chain of self-replies. The media
+   * and any quote go on the last part, which becomes the reply target.
+   */
+  private async publishSceneParts(
+    parts: string[],
+    partFacets: AppBskyRichtextFacet.Main[][],
+    media: SceneMedia[],
+    options: PublishOptions = {}
+  ): Promise<PostResponse[]> {
+    const { statusDiv, bluesky = this.bluesky } = options
+    const responses: PostResponse[] = []
+    let replyTo = options.replyTo
+
+    for (const [index, text] of parts.entries()) {
+      const isLast = index === parts.length - 1
+      if (statusDiv && parts.length > 1) {
+        this.showStatus(statusDiv, `Posting part ${index + 1} of ${parts.length}...`, 'info')
+      }
+
+      try {
+        const response = isLast
+          ? await this.publishScene(text, media, { ...options, replyTo, facets: partFacets[index] })
+          : await bluesky.createPost({ text, facets: partFacets[index], replyTo, interactions: options.interactions })
+        responses.push(response)
+        replyTo = {
+          root: replyTo?.root || { uri: response.uri, cid: response.cid },
+          parent: { uri: response.uri, cid: response.cid },
+        }
+      } catch (error) {
+        if (index === 0) throw error
+        throw new Error(`Posted ${index} of ${parts.length} parts, then failed: ${getErrorMessage(error, String(error))}`)
+      }
+    }
+
+    return responses
+  }
+
+  /**
+   * Add the earlier parts of a split scene to the thread path, each with
+   * the next part as its reply. The last part is left for the caller.
+   */
+  private appendSplitParts(posts: Post[]): void {
+    posts.slice(0, -1).forEach((post, index) => {
+      this.threadPath.push({
+        post,
+        replies: [posts[index + 1]],
+        depth: this.threadPath.length,
+      })
+    })
+  }
+
+  /**
+   * Upload any media and create the post
+   */
+  private async publishScene(text: string, media: SceneMedia[], options: PublishOptions = {}): Promise<PostResponse> {
+    const { replyTo, quote, facets, interactions, labels, linkCard, statusDiv, bluesky = this.bluesky } = options
+
+    const video = media.find(m => m.kind === 'video')
+    if (video) {
+      if (statusDiv) this.showStatus(statusDiv, 'Uploading video...', 'info')
+      const videoBlob = await bluesky.uploadVideo(video.blob)
+      return bluesky.createPost({ text, facets, videoBlob, videoAlt: video.alt, replyTo, quote, interactions, labels })
+    }
+
+    const images: PostImage[] = []
+    for (const [index, image] of media.entries()) {
+      if (statusDiv) {
+        this.showStatus(statusDiv, media.length > 1 ? `Uploading image ${index + 1} of ${media.length}...` : 'Uploading image...', 'info')
+      }
+      images.push({ blob: await bluesky.uploadImage(image.blob), alt: image.alt, aspectRatio: image.dimensions })
+    }
+
+    let external: PostExternal | undefined
+    if (!images.length && linkCard) {
+      external = { uri: linkCard.uri, title: linkCard.title || linkCard.uri, description: linkCard.description }
+      if (linkCard.thumbnail) {
+        if (statusDiv) this.showStatus(statusDiv, 'Uploading link thumbnail...', 'info')
+        external.thumb = await bluesky.uploadImage(await dataUrlToBlob(linkCard.thumbnail))
+      }
+    }
+
+    return bluesky.createPost({ text, facets, images, external, replyTo, quote, interactions, labels })
+  }
+
+  private getQuoteRef(): QuoteRef | undefined {
+    const post = this.sceneEditor.getQuote()
+    return post ? { uri: post.uri, cid: post.cid, handle: post.author.handle } : undefined
+  }
+
+  private getReplyRef(): ReplyRef | undefined {
+    if (!this.editingReplyTo) return undefined
+    return {
+      root: {
+        uri: this.rootPost ? this.rootPost.uri : this.editingReplyTo.uri,
+        cid: this.rootPost ? this.rootPost.cid : this.editingReplyTo.cid,
+      },
+      parent: {
+        uri: this.editingReplyTo.uri,
+        cid: this.editingReplyTo.cid,
+      },
+    }
+  }
+
+  /**
+   * Link a published scene back to its story node and remember its choices
+   * so reader votes can be tallied later
+   */
+  private recordPublishedScene(postResponse: PostResponse, choices: string, storyId?: string, storyNodeId?: string): void {
+    if (storyId && storyNodeId) {
+      const story = storyId === this.activeStory?.id
+        ? this.activeStory
+        : this.storage.loadStories().find(s => s.id === storyId)
+      if (story) {
+        // Stories made before accounts were tracked belong to whoever posts first
+        if (!story.accountDid) story.accountDid = new AtUri(postResponse.uri).host
+        markPublished(story, storyNodeId, { uri: postResponse.uri, cid: postResponse.cid })
+        this.saveStory(story)
+      }
+    }
+
+    if (choices.trim()) {
+      this.storage.savePostedChoices(postResponse.uri, choices.trim())
+    }
+  }
+
+  /**
+   * Load a stored draft into the editor, audio included
+   */
+  private async openDraft(draft: Draft): Promise<void> {
+    try {
+      const { scene, audioFile } = await this.drafts.toScene(draft)
+      this.sceneEditor.loadScene(scene, audioFile)
+
+      // Reconnect a draft opened from the planner to its scene
+      const fromActiveStory = draft.storyId === this.activeStory?.id &&
+        this.activeStory?.nodes.some(node => node.id === draft.storyNodeId)
+      this.setActiveStoryNode(fromActiveStory ? draft.storyNodeId || null : null)
+    } catch (error) {
+      console.error('Failed to open draft:', error)
+      this.showStatus(document.getElementById('post-status')!, 'Failed to open draft', 'error')
+    }
+  }
+
+  private loadStories(): void {
+    this.stories = this.storage.loadStories()
+    const activeId = this.storage.loadActiveStoryId()
+    this.activeStory = this.stories.find(s => s.id === activeId) || null
+    this.renderStoryPlanner()
+  }
+
+  private createStory(title: string): void {
+    const story = createStory(title)
+    story.accountDid = this.auth.getAuthState()?.did
+    this.storage.saveStory(story).catch(error => console.error('Failed to save scene media:', error))
+    this.switchStory(story.id)
+  }
+
+  private switchStory(storyId: string | null): void {
+    this.stories = this.storage.loadStories()
+    this.activeStory = this.stories.find(s => s.id === storyId) || null
+    this.activeStoryNodeId = null
+    this.storage.saveActiveStoryId(this.activeStory?.id || null)
+    this.renderStoryPlanner()
+  }
+
+  /**
+   * Make the editor's reply and quote controls the default for the story
+   */
+  private saveInteractionDefault(settings: InteractionSettings): void {
+    const statusDiv = document.getElementById('post-status')!
+    if (!this.activeStory) {
+      this.showStatus(statusDiv, 'Open a story in the planner to give it default reply controls', 'error')
+      return
+    }
+
+    setDefaultInteractions(this.activeStory, settings)
+    this.saveStory(this.activeStory)
+    this.showStatus(statusDiv, `Default for "${this.activeStory.title}": ${describeInteractions(settings)}`, 'success')
+  }
+
+  /**
+   * Make the editor's content warning the default for the story
+   */
+  private saveLabelDefault(labels: ContentLabel[]): void {
+    const statusDiv = document.getElementById('post-status')!
+    if (!this.activeStory) {
+      this.showStatus(statusDiv, 'Open a story in the planner to give it a default content warning', 'error')
+      return
+    }
+
+    setDefaultLabels(this.activeStory, labels.length ? labels : undefined)
+    this.saveStory(this.activeStory)
+    this.showStatus(statusDiv, `Default content warning for "${this.activeStory.title}": ${describeLabels(labels)}`, 'success')
+  }
+
+  private deleteStory(storyId: string): void {
+    this.storage.deleteStory(storyId)
+    this.switchStory(null)
+  }
+
+  private saveStory(story: Story): void {
+    this.storage.saveStory(story).catch(error => console.error('Failed to save scene media:', error))
+    this.stories = this.storage.loadStories()
+    // Switch to the stored copy so its media isn't written again on every save
+    if (this.activeStory?.id === story.id) {
+      this.activeStory = this.stories.find(s => s.id === story.id) || null
+    }
+    if (this.activeStoryNodeId && !story.nodes.some(n => n.id === this.activeStoryNodeId)) {
+      this.activeStoryNodeId = null
+    }
+    this.renderStoryPlanner()
+  }
+
+  /**
+   * Download a story with everything needed to pick it up elsewhere: its
+   * drafts, its thread if that's the one loaded, published post URIs and
+   * queued media
+   */
+  private async exportStory(storyId: string): Promise<void> {
+    const statusDiv = document.getElementById('story-archive-status')!
+    const story = this.stories.find(s => s.id === storyId)
+    if (!story) return
+
+    this.showStatus(statusDiv, 'Packing story...', 'info')
+
+    try {
+      await this.drafts.flush()
+
+      // Choices for the story's published scenes (for vote tallying)
+      const allChoices = this.storage.loadAllPostedChoices()
+      const postedChoices: Record<string, string> = {}
+      story.nodes.forEach(node => {
+        if (node.post && allChoices[node.post.uri]) {
+          postedChoices[node.post.uri] = allChoices[node.post.uri]
+        }
+      })
+
+      const archive = await buildArchive({
+        story: await this.storage.loadStoryMedia(story),
+        drafts: this.drafts.getDrafts().filter(draft => draft.storyId === story.id),
+        threadState: this.getStoryThreadState(story),
+        postedChoices,
+        queue: this.publishQueue.getItems().filter(item => item.storyId === story.id),
+      })
+
+      const url = URL.createObjectURL(archive)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `${story.title.replace(/[^a-z0-9-_ ]/gi, '').trim() || 'story'}.zip`
+      link.click()
+      setTimeout(() => URL.revokeObjectURL(url), 1000)
+
+      this.showStatus(statusDiv, `Exported "${story.title}"`, 'success')
+    } catch (error) {
+      console.error('Export failed:', error)
+      this.showStatus(statusDiv, getErrorMessage(error, 'Failed to export story'), 'error')
+    }
+  }
+
+  /**
+   * The saved thread, if it's one the story's published scenes are part of
+   */
+  private getStoryThreadState(story: Story): ThreadState | null {
+    const state = this.storage.loadThreadState()
+    if (!state?.rootPost) return null
+
+    const sceneUris = new Set(story.nodes.flatMap(node => node.post ? [node.post.uri] : []))
+    const threadUris = [state.rootPost.uri, ...state.threadPath.map(node => node.post.uri)]
+    return threadUris.some(uri => sceneUris.has(uri)) ? state : null
+  }
+
+  private async importStory(file: File): Promise<void> {
+    const statusDiv = document.getElementById('story-archive-status')!
+    this.showStatus(statusDiv, 'Reading archive...', 'info')
+
+    try {
+      const archive = await readArchive(file)
+      const existing = this.stories.find(s => s.id === archive.story.id)
+      if (existing && !confirm(`Replace your copy of "${existing.title}" with the one in this archive?`)) {
+        statusDiv.style.display = 'none'
+        return
+      }
+
+      await this.storage.saveStory(archive.story)
+      Object.entries(archive.postedChoices).forEach(([uri, choices]) => {
+        this.storage.savePostedChoices(uri, choices)
+      })
+
+      // Reopen the editor if the open draft was replaced
+      await this.drafts.importDrafts(archive.drafts)
+      const activeDraft = this.drafts.getActiveDraft()
+      if (activeDraft && archive.drafts.some(d => d.id === activeDraft.id)) {
+        await this.openDraft(activeDraft)
+      }
+
+      // Another browser may also publish these, so they wait for the
+      // author to reschedule rather than going out on their own
+      const queuedIds = new Set(this.publishQueue.getItems().map(item => item.id))
+      for (const item of archive.queue) {
+        if (queuedIds.has(item.id)) continue
+        if (item.status === 'scheduled' || item.status === 'publishing') {
+          item.status = 'failed'
+          item.error = 'Imported from an archive. Reschedule or post it here if this browser should publish it.'
+        }
+        await this.publishQueue.add(item)
+      }
+
+      this.switchStory(archive.story.id)
+
+      // Only replace a different loaded thread if the author agrees
+      const archivedRoot = archive.threadState?.rootPost
+      if (archive.threadState && archivedRoot) {
+        const replace = !this.rootPost || this.rootPost.uri === archivedRoot.uri ||
+          confirm('Replace the loaded thread with the story\'s thread from the archive?')
+        if (replace) {
+          this.storage.saveThreadState(archive.threadState)
+          await this.loadThreadState()
+        }
+      }
+
+      this.showStatus(statusDiv, `Imported "${archive.story.title}"`, 'success')
+    } catch (error) {
+      console.error('Import failed:', error)
+      this.showStatus(statusDiv, getErrorMessage(error, 'Failed to import archive'), 'error')
+    }
+  }
+
+  private async loadStoryScene(node: StoryNode): Promise<void> {
+    const storyId = this.activeStory?.id
+    const scene = storyId ? await this.storage.loadStoryScene(storyId, node) : node.scene
+    await this.openSceneInDraft(node.title, scene, storyId, node.id)
+  }
+
+  /**
+   * Open a planner or vote-winner scene in a draft of its own, so the draft
+   * that was open keeps its contents. The open draft is reused if the
+   * editor is empty.
+   */
+  private async openSceneInDraft(name: string, scene: SceneData, storyId?: string, storyNodeId?: string): Promise<void> {
+    const activeDraft = this.drafts.getActiveDraft()
+    if (activeDraft && this.isEditorEmpty()) {
+      await this.drafts.updateDetails(activeDraft.id, { name, storyId, storyNodeId })
+    } else {
+      await this.drafts.create(name, { storyId, storyNodeId })
+    }
+
+    this.sceneEditor.loadScene(scene)
+    this.setActiveStoryNode(storyNodeId || null)
+  }
+
+  private setActiveStoryNode(nodeId: string | null): void {
+    this.activeStoryNodeId = nodeId
+    this.renderStoryPlanner()
+  }
+
+  private renderStoryPlanner(): void {
+    this.storyPlanner.render(this.stories, this.activeStory, this.activeStoryNodeId)
+    this.sceneEditor.setInteractionDefault(this.activeStory?.interactions)
+    this.sceneEditor.setLabelDefault(this.activeStory?.labels)
+    this.updateAccountWarning()
+  }
+
   private stripHTML(text: string): string {
     // Create a temporary div to parse HTML
     const div = document.createElement('div')
@@ -760,8 +2555,24 @@ class BotAdventureApp {
     const threadView = document.getElementById('thread-view')
     if (threadView && this.threadPath.length > 0) {
       threadView.style.display = 'block'
-      this.threadNavigator.render(this.threadPath, this.editingReplyTo)
+      this.threadNavigator.render(this.threadPath, this.editingReplyTo, this.unseenReplyUris)
     }
+    this.renderNewRepliesBadge()
+    this.sceneEditor.setQuoteOptions(this.threadPath.map(node => node.post))
+    this.updateAccountWarning()
+  }
+
+  /**
+   * Count unseen replies under the post at the end of the path
+   */
+  private renderNewRepliesBadge(): void {
+    const badge = document.getElementById('new-replies-badge')
+    if (!badge) return
+
+    const replies = this.threadPath[this.threadPath.length - 1]?.replies || []
+    const count = replies.filter(reply => this.unseenReplyUris.has(reply.uri)).length
+    badge.textContent = `🔔 ${count} new repl${count === 1 ? 'y' : 'ies'}`
+    badge.style.display = count > 0 ? 'inline-block' : 'none'
   }
 
   private saveThreadState(): void {
@@ -771,6 +2582,7 @@ class BotAdventureApp {
       threadPath: this.threadPath,
       editingReplyTo: this.editingReplyTo,
       threadUrl: threadUrl,
+      accountDid: this.threadAccountDid || undefined,
     })
   }
 
@@ -780,6 +2592,7 @@ class BotAdventureApp {
       this.rootPost = state.rootPost
       this.threadPath = state.threadPath
       this.editingReplyTo = state.editingReplyTo
+      this.threadAccountDid = state.accountDid || this.getThreadAccount(state.rootPost)
 
       // Restore the thread URL to the input field
       if (state.threadUrl) {
@@ -799,8 +2612,21 @@ class BotAdventureApp {
       const clearBtn = document.getElementById('clear-thread') as HTMLButtonElement
       if (reloadBtn) reloadBtn.style.display = 'block'
       if (clearBtn) clearBtn.style.display = 'block'
+      this.setThreadToolsVisible(true)
 
       this.renderThread()
+      this.pollPathEnd()
+    }
+  }
+
+  /**
+   * A request the server refused because the session expired or was
+   * revoked sends the account (the active one by default) through the
+   * sign-in-again flow. Other errors are left to the caller.
+   */
+  private handleAuthError(error: unknown, accountDid?: string): void {
+    if (error instanceof AuthError) {
+      this.auth.handleAuthError(accountDid)
     }
   }
 
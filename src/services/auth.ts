@@ -1,101 +1,428 @@
-import { BskyAgent } from '@atproto/api'
-import { AuthState } from '../types'
+import { Agent, AtpAgent, AtpSessionData, AtpSessionEvent } from '@atproto/api'
+import { BrowserOAuthClient, OAuthSession, buildLoopbackClientId } from '@atproto/oauth-client-browser'
+import { AccountSettings, AuthState } from '../types'
 import { StorageService } from './storage'
+import { DEFAULT_SERVICE, discoverPds } from '../utils/identity'
+import { AuthError, toBlueskyError } from '../utils/blueskyErrors'
 
+const HANDLE_RESOLVER = 'https://bsky.social'
+
+// Posting needs the transitional generic scope on top of the base one
+const OAUTH_SCOPE = 'atproto transition:generic'
+
+function isLoopbackHost(hostname: string): boolean {
+  return hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '[::1]'
+}
+
+export interface AuthServiceCallbacks {
+  onAuthChange: (authenticated: boolean, handle?: string) => void // The active account signed in or out
+  onSessionExpired: (authState: AuthState) => void // The active account has to sign in again
+  onAccountsChange: (accounts: AuthState[], activeDid: string | null) => void
+}
+
+// A bot account with its own agent and session
+interface Account {
+  state: AuthState
+  agent: Agent
+  isAuthenticated: boolean
+  isExpired: boolean
+}
+
+/**
+ * Signed-in bot accounts. One account is active at a time and drives the
+ * editor, but each keeps its own agent so scheduled posts can go out from
+ * the account that scheduled them.
+ */
 export class AuthService {
-  private agent: BskyAgent
-  private authState: AuthState | null = null
-  private isAuthenticated = false
+  private accounts = new Map<string, Account>() // Keyed by DID
+  private activeDid: string | null = null
+  private signedOutAgent: Agent = new AtpAgent({ service: DEFAULT_SERVICE })
+  private oauthClient: Promise<BrowserOAuthClient> | null = null
 
   constructor(
     private storage: StorageService,
-    private onAuthChange?: (authenticated: boolean, handle?: string) => void
+    private callbacks: AuthServiceCallbacks
   ) {
-    this.agent = new BskyAgent({
-      service: 'https://bsky.social',
-    })
+    // Load saved accounts; their sessions are resumed in restoreSession
+    for (const state of this.storage.loadAccounts()) {
+      this.accounts.set(state.did, { state, agent: this.signedOutAgent, isAuthenticated: false, isExpired: false })
+    }
+    const activeDid = this.storage.loadActiveAccountDid()
+    this.activeDid = activeDid !== null && this.accounts.has(activeDid)
+      ? activeDid
+      : this.accounts.keys().next().value ?? null
+  }
 
-    // Load saved auth state
-    this.authState = this.storage.loadAuthState()
+  /**
+   * The active account's agent
+   */
+  getAgent(): Agent {
+    return this.getActive()?.agent || this.signedOutAgent
   }
 
-  getAgent(): BskyAgent {
-    return this.agent
+  /**
+   * A signed-in agent for a specific account, if it has one
+   */
+  getAgentFor(did: string): Agent | null {
+    const account = this.accounts.get(did)
+    return account?.isAuthenticated ? account.agent : null
   }
 
   getAuthState(): AuthState | null {
-    return this.authState
+    return this.getActive()?.state || null
   }
 
-  isUserAuthenticated(): boolean {
-    return this.isAuthenticated
+  getAccounts(): AuthState[] {
+    return Array.from(this.accounts.values(), account => account.state)
   }
 
-  async login(handle: string, appPassword: string): Promise<string> {
-    try {
-      const response = await this.agent.login({
-        identifier: handle,
-        password: appPassword,
-      })
+  isUserAuthenticated(did?: string): boolean {
+    const account = did === undefined ? this.getActive() : this.accounts.get(did)
+    return account?.isAuthenticated || false
+  }
 
-      // Get the actual handle from the session (in case original was email)
-      const actualHandle = this.agent.session?.handle || handle
+  /**
+   * Whether the active account's session ran out and it has to sign in again
+   */
+  isSessionExpired(): boolean {
+    return this.getActive()?.isExpired || false
+  }
 
-      // Save auth state
-      this.authState = {
-        handle: actualHandle,
-        appPassword: appPassword,
-        session: response,
-      }
-      this.storage.saveAuthState(this.authState)
-      this.isAuthenticated = true
+  /**
+   * The server refused a request because the session is no longer valid.
+   * The account (the active one by default) has to sign in again, as
+   * when its refresh token runs out.
+   */
+  handleAuthError(did?: string): void {
+    const account = did === undefined ? this.getActive() : this.accounts.get(did)
+    if (account) this.expireSession(account)
+  }
 
-      if (this.onAuthChange) {
-        this.onAuthChange(true, actualHandle)
-      }
+  /**
+   * Whether this page load is the redirect back from the OAuth server
+   */
+  hasPendingOAuthCallback(): boolean {
+    const params = new URLSearchParams(window.location.hash.slice(1) || window.location.search)
+    return params.has('state') && (params.has('code') || params.has('error'))
+  }
 
-      return actualHandle
+  /**
+   * Start the OAuth flow. The browser leaves the page for the user's
+   * authorization server and comes back to restoreSession. With a PDS URL
+   * the server is asked directly instead of resolving the handle.
+   */
+  async loginWithOAuth(handle: string, settings: AccountSettings = {}): Promise<void> {
+    const client = await this.getOAuthClient()
+    await client.signInRedirect(settings.service || handle, {
+      scope: OAUTH_SCOPE,
+      // Comes back with the callback, so the settings survive the redirect
+      state: JSON.stringify(settings),
+    })
+  }
+
+  /**
+   * App-password login, kept as a fallback for accounts or servers without
+   * OAuth. Only the session tokens are stored, never the password. The
+   * account is added (or replaced) and becomes the active one.
+   */
+  async login(handle: string, appPassword: string, settings: AccountSettings = {}): Promise<string> {
+    try {
+      const { agent, authState } = await this.passwordLogin(handle, appPassword, settings)
+      return this.addAccount(authState, agent)
     } catch (error) {
       console.error('Login failed:', error)
       throw error
     }
   }
 
+  /**
+   * Resume every saved account and finish an OAuth sign-in if this page is
+   * its redirect. Returns the active account's handle once it is signed in.
+   */
   async restoreSession(): Promise<string | null> {
-    if (!this.authState) return null
+    let callbackFailed = false
+    if (this.hasPendingOAuthCallback()) {
+      try {
+        const client = await this.getOAuthClient()
+        const result = await client.init()
+        if (result) {
+          const settings: AccountSettings = result.state ? JSON.parse(result.state) : {}
+          await this.useOAuthSession(result.session, true, settings)
+        }
+      } catch (error) {
+        console.error('OAuth sign-in failed:', error)
+        callbackFailed = true
+      }
+    }
 
-    try {
-      await this.agent.login({
-        identifier: this.authState.handle,
-        password: this.authState.appPassword,
-      })
+    let activeFailed = false
+    for (const account of Array.from(this.accounts.values())) {
+      if (account.isAuthenticated) continue
+      try {
+        await this.restoreAccount(account)
+      } catch (error) {
+        console.error(`Session restoration failed for @${account.state.handle}:`, error)
+        if (account.state.did === this.activeDid && !account.isExpired) activeFailed = true
+      }
+    }
+
+    if (callbackFailed) {
+      throw new Error('Bluesky sign-in did not complete. Please try again.')
+    }
+    if (activeFailed) {
+      throw new Error('Could not reach Bluesky to restore your session. Reload the page to try again.')
+    }
+
+    return this.isUserAuthenticated() ? this.getAuthState()!.handle : null
+  }
+
+  /**
+   * Make another saved account the active one
+   */
+  switchAccount(did: string): void {
+    const account = this.accounts.get(did)
+    if (!account || did === this.activeDid) return
+
+    this.activeDid = did
+    this.storage.saveActiveAccountDid(did)
+    this.notifyAccounts()
+
+    if (account.isExpired) {
+      this.callbacks.onSessionExpired(account.state)
+    } else {
+      this.callbacks.onAuthChange(account.isAuthenticated, account.state.handle)
+    }
+  }
+
+  /**
+   * Sign the active account out and switch to the next saved one, if any
+   */
+  logout(): void {
+    const account = this.getActive()
+    if (account) {
+      // Revoke OAuth tokens in the background; local state goes regardless
+      if (account.state.method === 'oauth' && this.oauthClient) {
+        const did = account.state.did
+        this.oauthClient
+          .then(client => client.revoke(did))
+          .catch(error => console.error('Failed to revoke OAuth session:', error))
+      }
+
+      this.accounts.delete(account.state.did)
+      this.saveAccounts()
+    }
+
+    const next = this.accounts.values().next().value
+    this.activeDid = next?.state.did ?? null
+    this.storage.saveActiveAccountDid(this.activeDid)
+    this.notifyAccounts()
+
+    if (next?.isExpired) {
+      this.callbacks.onSessionExpired(next.state)
+    } else {
+      this.callbacks.onAuthChange(next?.isAuthenticated || false, next?.state.handle)
+    }
+  }
 
-      // Get the actual handle from the session
-      const actualHandle = this.agent.session?.handle || this.authState.handle
-      this.authState.handle = actualHandle
-      this.storage.saveAuthState(this.authState)
-      this.isAuthenticated = true
+  private getActive(): Account | undefined {
+    return this.activeDid === null ? undefined : this.accounts.get(this.activeDid)
+  }
+
+  private async restoreAccount(account: Account): Promise<void> {
+    const { state } = account
 
-      if (this.onAuthChange) {
-        this.onAuthChange(true, actualHandle)
+    if (state.method === 'oauth') {
+      const client = await this.getOAuthClient()
+      try {
+        await this.useOAuthSession(await client.restore(state.did), false, {
+          service: state.service,
+          webAppUrl: state.webAppUrl,
+        })
+      } catch (error) {
+        // Network failures are TypeErrors; anything else means the client
+        // no longer has a usable session
+        if (!(error instanceof TypeError)) this.expireSession(account)
+        throw error
       }
+      return
+    }
+
+    // State saved by older versions holds the password: log in once more
+    // so it can be replaced by session tokens
+    if (state.appPassword) {
+      const { agent, authState } = await this.passwordLogin(state.handle, state.appPassword, {
+        service: state.service,
+        webAppUrl: state.webAppUrl,
+      })
+      const wasActive = state.did === this.activeDid
+      this.accounts.delete(state.did)
+      this.addAccount(authState, agent, wasActive)
+      return
+    }
 
-      return actualHandle
+    if (!state.session) {
+      this.expireSession(account)
+      return
+    }
+
+    // Resuming refreshes the access token if needed; the new tokens come
+    // back through persistSession
+    const agent = this.createPasswordAgent(state.service || DEFAULT_SERVICE)
+    account.agent = agent
+    try {
+      await agent.resumeSession(state.session)
     } catch (error) {
-      console.error('Session restoration failed:', error)
-      // Clear invalid auth state
-      this.logout()
-      return null
+      // persistSession has already marked the session expired
+      if (toBlueskyError(error) instanceof AuthError) return
+      // Probably offline: keep the tokens so a reload can try again
+      throw error
     }
+
+    this.addAccount({
+      ...state,
+      handle: agent.session?.handle || state.handle,
+      session: agent.session,
+    }, agent, false)
   }
 
-  logout(): void {
-    this.authState = null
-    this.isAuthenticated = false
-    this.storage.clearAuthState()
+  private async passwordLogin(
+    handle: string,
+    appPassword: string,
+    settings: AccountSettings
+  ): Promise<{ agent: AtpAgent; authState: AuthState }> {
+    // Log in at the account's own PDS so self-hosted servers work too
+    const service = settings.service || await discoverPds(handle) || DEFAULT_SERVICE
+    const agent = this.createPasswordAgent(service)
+    await agent.login({
+      identifier: handle,
+      password: appPassword,
+    })
+
+    return {
+      agent,
+      // Get the actual handle from the session (in case original was email)
+      authState: {
+        method: 'app-password',
+        handle: agent.session?.handle || handle,
+        did: agent.session?.did || '',
+        session: agent.session,
+        service,
+        webAppUrl: settings.webAppUrl,
+      },
+    }
+  }
+
+  private async useOAuthSession(session: OAuthSession, activate: boolean, settings: AccountSettings): Promise<string> {
+    // The session talks to the account's PDS itself; settings are kept for display and links
+    const agent = new Agent(session)
+    const response = await agent.com.atproto.server.getSession()
+
+    return this.addAccount({
+      method: 'oauth',
+      handle: response.data.handle,
+      did: session.did,
+      ...settings,
+    }, agent, activate)
+  }
+
+  private createPasswordAgent(service: string): AtpAgent {
+    const agent: AtpAgent = new AtpAgent({
+      service,
+      persistSession: (event, session) => this.handleSessionEvent(agent, event, session),
+    })
+    return agent
+  }
 
-    if (this.onAuthChange) {
-      this.onAuthChange(false)
+  /**
+   * Keep the stored tokens in step with the agent's refreshes
+   */
+  private handleSessionEvent(agent: AtpAgent, event: AtpSessionEvent, session?: AtpSessionData): void {
+    // Ignore agents that have been replaced, e.g. after logout
+    const account = Array.from(this.accounts.values()).find(a => a.agent === agent)
+    if (!account || account.state.method !== 'app-password') return
+
+    if (event === 'update' && session) {
+      account.state = { ...account.state, session }
+      this.saveAccounts()
+    } else if (event === 'expired') {
+      this.expireSession(account)
+    }
+    // 'network-error' leaves the stored tokens alone for the next attempt
+  }
+
+  /**
+   * The refresh token is gone: forget the tokens but keep the account, so
+   * the user only has to sign in again
+   */
+  private expireSession(account: Account): void {
+    if (account.isExpired) return
+
+    const { session: _session, appPassword: _appPassword, ...remaining } = account.state
+    account.state = remaining
+    account.agent = this.signedOutAgent
+    account.isAuthenticated = false
+    account.isExpired = true
+    this.saveAccounts()
+    this.notifyAccounts()
+
+    if (remaining.did === this.activeDid) {
+      this.callbacks.onSessionExpired(remaining)
+    }
+  }
+
+  /**
+   * Store a signed-in account, making it the active one unless told not to
+   */
+  private addAccount(authState: AuthState, agent: Agent, activate = true): string {
+    this.accounts.set(authState.did, { state: authState, agent, isAuthenticated: true, isExpired: false })
+    this.saveAccounts()
+
+    if (activate) {
+      this.activeDid = authState.did
+      this.storage.saveActiveAccountDid(authState.did)
+    }
+    this.notifyAccounts()
+
+    if (authState.did === this.activeDid) {
+      this.callbacks.onAuthChange(true, authState.handle)
+    }
+
+    return authState.handle
+  }
+
+  private saveAccounts(): void {
+    this.storage.saveAccounts(this.getAccounts())
+  }
+
+  private notifyAccounts(): void {
+    this.callbacks.onAccountsChange(this.getAccounts(), this.activeDid)
+  }
+
+  private getOAuthClient(): Promise<BrowserOAuthClient> {
+    if (!this.oauthClient) {
+      // Without a hosted client metadata document, fall back to the
+      // loopback client used for local development
+      let clientId = import.meta.env.VITE_OAUTH_CLIENT_ID
+      if (!clientId) {
+        if (!isLoopbackHost(window.location.hostname)) {
+          return Promise.reject(new Error('OAuth is not set up for this site (VITE_OAUTH_CLIENT_ID). Use an app password instead.'))
+        }
+        clientId = `${buildLoopbackClientId(window.location)}&scope=${encodeURIComponent(OAUTH_SCOPE)}`
+      }
+
+      this.oauthClient = BrowserOAuthClient.load({
+        clientId,
+        handleResolver: HANDLE_RESOLVER,
+        // The client refreshes tokens itself; it only tells us when it gives up
+        onDelete: (sub) => {
+          const account = this.accounts.get(sub)
+          if (account?.state.method === 'oauth') {
+            this.expireSession(account)
+          }
+        },
+      })
+      this.oauthClient.catch(() => { this.oauthClient = null })
     }
+    return this.oauthClient
   }
-}
\ No newline at end of file
+}
@@ -1,17 +1,51 @@
-import { BskyAgent } from '@atproto/api'
-import { Post } from '../types'
+import {
+  Agent,
+  AppBskyActorGetProfile,
+  AppBskyEmbedExternal,
+  AppBskyEmbedImages,
+  AppBskyEmbedVideo,
+  AppBskyFeedGetPostThread,
+  AppBskyFeedPost,
+  AppBskyFeedPostgate,
+  AppBskyFeedThreadgate,
+  AppBskyRichtextFacet,
+  AtUri,
+  BlobRef,
+  ComAtprotoRepoApplyWrites,
+  RichText,
+} from '@atproto/api'
+import { ContentLabel, InteractionSettings, Post, ReplyRef } from '../types'
+import { buildPostUrl } from '../utils/identity'
+import { buildThreadgateAllow, hasInteractionControls, parseListUri } from '../utils/interactions'
+import { buildSelfLabels } from '../utils/contentLabels'
+import { parseThreadView, ThreadView } from '../utils/threadView'
+import { BadRecordError, NotFoundError, toBlueskyError } from '../utils/blueskyErrors'
+import { nextTid } from '../utils/tid'
 
 export interface PostOptions {
   text: string
-  imageBlob?: any
-  imageAlt?: string
-  imageDimensions?: { width: number; height: number }
-  videoBlob?: any
+  facets?: AppBskyRichtextFacet.Main[] // Detected from text when omitted
+  images?: PostImage[] // Up to four, in display order
+  videoBlob?: BlobRef
   videoAlt?: string
-  replyTo?: {
-    root: { uri: string; cid: string }
-    parent: { uri: string; cid: string }
-  }
+  external?: PostExternal // A link card, used when there are no images or video
+  replyTo?: ReplyRef
+  quote?: { uri: string; cid: string } // Embedded as a quote, alongside any media
+  interactions?: InteractionSettings // Reply rules only apply to the first post of a thread
+  labels?: ContentLabel[] // Self-labels, e.g. 'graphic-media'
+}
+
+export interface PostImage {
+  blob: BlobRef // Uploaded with uploadImage
+  alt: string
+  aspectRatio?: { width: number; height: number }
+}
+
+export interface PostExternal {
+  uri: string
+  title: string
+  description: string
+  thumb?: BlobRef // Uploaded with uploadImage
 }
 
 export interface PostResponse {
@@ -20,25 +54,50 @@ export interface PostResponse {
   url: string
 }
 
+type PostRecord = Omit<AppBskyFeedPost.Record, 'createdAt'> & Partial<Pick<AppBskyFeedPost.Record, 'createdAt'>>
+type MediaEmbed = AppBskyEmbedImages.Main | AppBskyEmbedVideo.Main | AppBskyEmbedExternal.Main
+
+/**
+ * Posting and reading through the active account's agent. Errors from the
+ * server come back as the classes in utils/blueskyErrors where one applies
+ * (rate limits, auth failures, bad records).
+ */
 export class BlueskyService {
-  constructor(private getAgent: () => BskyAgent) {}
+  constructor(
+    private getAgent: () => Agent,
+    private getHandle: () => string | undefined,
+    private getWebAppUrl: () => string
+  ) {}
 
   async createPost(options: PostOptions): Promise<PostResponse> {
     const agent = this.getAgent()
 
-    const postData: any = {
+    const postData: PostRecord = {
       text: options.text,
       createdAt: new Date().toISOString(),
     }
 
+    // Make mentions, links and hashtags clickable
+    const facets = options.facets ?? await this.detectFacets(options.text)
+    if (facets.length > 0) {
+      postData.facets = facets
+    }
+
     // Add reply parameters if provided
     if (options.replyTo) {
       postData.reply = options.replyTo
     }
 
-    // Add image or video embed if provided
+    // Content warnings
+    const labels = buildSelfLabels(options.labels)
+    if (labels) {
+      postData.labels = labels
+    }
+
+    // Add image, video or link card embed if provided
+    let media: MediaEmbed | undefined
     if (options.videoBlob) {
-      postData.embed = {
+      media = {
         $type: 'app.bsky.embed.video',
         video: options.videoBlob,
         alt: options.videoAlt || '',
@@ -47,67 +106,229 @@ export class BlueskyService {
           height: 16,
         },
       }
-    } else if (options.imageBlob) {
-      postData.embed = {
+    } else if (options.images?.length) {
+      media = {
         $type: 'app.bsky.embed.images',
-        images: [{
-          alt: options.imageAlt || '',
-          image: options.imageBlob,
-          aspectRatio: options.imageDimensions || { width: 1, height: 1 },
-        }],
+        images: options.images.map(image => ({
+          alt: image.alt,
+          image: image.blob,
+          aspectRatio: image.aspectRatio || { width: 1, height: 1 },
+        })),
       }
+    } else if (options.external) {
+      media = {
+        $type: 'app.bsky.embed.external',
+        external: {
+          uri: options.external.uri,
+          title: options.external.title,
+          description: options.external.description,
+          ...(options.external.thumb ? { thumb: options.external.thumb } : {}),
+        },
+      }
+    }
+
+    // A quote wraps the media when there is both
+    if (options.quote) {
+      const record = { uri: options.quote.uri, cid: options.quote.cid }
+      postData.embed = media
+        ? { $type: 'app.bsky.embed.recordWithMedia', record: { $type: 'app.bsky.embed.record', record }, media }
+        : { $type: 'app.bsky.embed.record', record }
+    } else if (media) {
+      postData.embed = media
     }
 
-    const response = await agent.post(postData)
+    // The post and its reply and quote controls are written in one commit,
+    // so the post is never visible without them. Choosing the record key
+    // here lets the gates point at the post before it exists.
+    const repo = agent.assertDid
+    const rkey = nextTid()
+    const postUri = `at://${repo}/app.bsky.feed.post/${rkey}`
+    const writes: ComAtprotoRepoApplyWrites.Create[] = [{
+      $type: 'com.atproto.repo.applyWrites#create',
+      collection: 'app.bsky.feed.post',
+      rkey,
+      value: { $type: 'app.bsky.feed.post', ...postData },
+    }]
+    if (hasInteractionControls(options.interactions)) {
+      writes.push(...await this.buildInteractionWrites(postUri, rkey, options.interactions!, !options.replyTo))
+    }
+
+    const response = await this.call(() => agent.com.atproto.repo.applyWrites({ repo, writes }))
+    const created = response.data.results?.[0]
+    if (!created || typeof created.cid !== 'string') {
+      throw new BadRecordError('Bluesky did not confirm the new post', postUri)
+    }
 
     // Build the post URL
-    const handle = agent.session?.handle || 'user'
-    const postId = response.uri.split('/').pop()
-    const url = `https://bsky.app/profile/${handle}/post/${postId}`
+    const handle = this.getHandle() || agent.did || 'user'
+    const url = buildPostUrl(this.getWebAppUrl(), handle, postUri)
 
     return {
-      uri: response.uri,
-      cid: response.cid,
+      uri: postUri,
+      cid: created.cid,
       url,
     }
   }
 
-  async uploadImage(blob: Blob): Promise<any> {
+  /**
+   * Writes for a post's threadgate and postgate. Both share the post's
+   * record key; a threadgate is only honoured on the first post of a thread.
+   */
+  private async buildInteractionWrites(
+    postUri: string,
+    rkey: string,
+    settings: InteractionSettings,
+    isThreadRoot: boolean
+  ): Promise<ComAtprotoRepoApplyWrites.Create[]> {
+    const writes: ComAtprotoRepoApplyWrites.Create[] = []
+    const createdAt = new Date().toISOString()
+
+    if (isThreadRoot && settings.replyRules) {
+      let listUri: string | undefined
+      if (settings.replyRules.includes('list')) {
+        listUri = await this.resolveListUri(settings.replyListUri || '')
+      }
+      const threadgate: AppBskyFeedThreadgate.Record = {
+        $type: 'app.bsky.feed.threadgate',
+        post: postUri,
+        allow: buildThreadgateAllow(settings, listUri),
+        createdAt,
+      }
+      writes.push({ $type: 'com.atproto.repo.applyWrites#create', collection: 'app.bsky.feed.threadgate', rkey, value: threadgate })
+    }
+
+    if (settings.disableQuotes) {
+      const postgate: AppBskyFeedPostgate.Record = {
+        $type: 'app.bsky.feed.postgate',
+        post: postUri,
+        embeddingRules: [{ $type: 'app.bsky.feed.postgate#disableRule' }],
+        createdAt,
+      }
+      writes.push({ $type: 'com.atproto.repo.applyWrites#create', collection: 'app.bsky.feed.postgate', rkey, value: postgate })
+    }
+    return writes
+  }
+
+  /**
+   * A list's at:// URI with the owner's DID, as threadgates require
+   */
+  private async resolveListUri(value: string): Promise<string> {
+    const uri = parseListUri(value)
+    if (!uri) {
+      throw new Error('The reply list is not a valid list URL')
+    }
+
+    const atUri = new AtUri(uri)
+    if (!atUri.host.startsWith('did:')) {
+      const response = await this.getAgent().resolveHandle({ handle: atUri.host })
+      atUri.host = response.data.did
+    }
+    return atUri.toString()
+  }
+
+  /**
+   * Detect mention, link and hashtag facets in post text. Byte offsets are
+   * computed on the UTF-8 encoding by RichText, so emoji and non-ASCII text
+   * are handled. Mentions must resolve to a DID: an unknown handle throws
+   * rather than producing a broken facet.
+   */
+  async detectFacets(text: string): Promise<AppBskyRichtextFacet.Main[]> {
+    const agent = this.getAgent()
+    const richText = new RichText({ text })
+    richText.detectFacetsWithoutResolution()
+
+    const facets = richText.facets || []
+    const unresolved: string[] = []
+
+    for (const facet of facets) {
+      for (const feature of facet.features) {
+        if (!AppBskyRichtextFacet.isMention(feature)) continue
+
+        // Before resolution the mention's did holds the handle
+        const handle = feature.did
+        try {
+          const response = await agent.resolveHandle({ handle })
+          feature.did = response.data.did
+        } catch (error) {
+          console.error(`Failed to resolve handle @${handle}:`, error)
+          unresolved.push(`@${handle}`)
+        }
+      }
+    }
+
+    if (unresolved.length > 0) {
+      throw new Error(`Could not resolve ${unresolved.join(', ')}. Check the handle spelling or remove the mention.`)
+    }
+
+    return facets
+  }
+
+  async uploadImage(blob: Blob): Promise<BlobRef> {
     const agent = this.getAgent()
-    const response = await agent.uploadBlob(blob, {
+    const response = await this.call(() => agent.uploadBlob(blob, {
       encoding: blob.type || 'image/png',
-    })
+    }))
     return response.data.blob
   }
 
-  async uploadVideo(blob: Blob): Promise<any> {
+  async uploadVideo(blob: Blob): Promise<BlobRef> {
     const agent = this.getAgent()
-    const response = await agent.uploadBlob(blob, {
+    const response = await this.call(() => agent.uploadBlob(blob, {
       encoding: 'video/mp4',
-    })
+    }))
     return response.data.blob
   }
 
-  async getPostThread(uri: string, depth: number = 1): Promise<any> {
+  async getPostThread(uri: string, depth: number = 1): Promise<AppBskyFeedGetPostThread.Response> {
     const agent = this.getAgent()
-    return await agent.getPostThread({
+    return await this.call(() => agent.getPostThread({
       uri,
       depth,
-    })
+    }))
   }
 
-  async getProfile(actor: string): Promise<any> {
+  /**
+   * A post and its replies down to the given depth. A post the AppView
+   * doesn't have comes back as a placeholder instead of an error.
+   */
+  async getThreadView(uri: string, depth: number = 1): Promise<ThreadView> {
+    try {
+      const response = await this.getPostThread(uri, depth)
+      return parseThreadView(response.data.thread)
+    } catch (error) {
+      if (error instanceof NotFoundError) return { status: 'notFound', uri }
+      throw error
+    }
+  }
+
+  async getLikers(uri: string): Promise<{ did: string; handle: string }[]> {
     const agent = this.getAgent()
-    return await agent.getProfile({ actor })
+    const likers: { did: string; handle: string }[] = []
+    let cursor: string | undefined
+
+    // Page through all likes (100 per request)
+    do {
+      const response = await this.call(() => agent.getLikes({ uri, limit: 100, cursor }))
+      response.data.likes.forEach((like) => {
+        likers.push({ did: like.actor.did, handle: like.actor.handle })
+      })
+      cursor = response.data.cursor
+    } while (cursor)
+
+    return likers
   }
 
+  async getProfile(actor: string): Promise<AppBskyActorGetProfile.Response> {
+    const agent = this.getAgent()
+    return await this.call(() => agent.getProfile({ actor }))
+  }
+
+  // Post links look the same on bsky.app and self-hosted web apps
   parsePostUrl(url: string): { handle: string; postId: string } | null {
-    if (url.includes('bsky.app/profile/')) {
-      const match = url.match(/profile\/([^/]+)\/post\/([^/?]+)/)
-      if (match) {
-        const [, handle, postId] = match
-        return { handle, postId }
-      }
+    const match = url.match(/^https?:\/\/[^/]+\/profile\/([^/]+)\/post\/([^/?#]+)/)
+    if (match) {
+      const [, handle, postId] = match
+      return { handle, postId }
     }
     return null
   }
@@ -130,7 +351,7 @@ export class BlueskyService {
     }
   }
 
-  createPostFromResponse(response: PostResponse, text: string, author: any, replyTo?: any): Post {
+  createPostFromResponse(response: PostResponse, text: string, author: Partial<Post['author']>, replyTo?: ReplyRef): Post {
     return {
       uri: response.uri,
       cid: response.cid,
@@ -150,4 +371,15 @@ export class BlueskyService {
       indexedAt: new Date().toISOString(),
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Run an agent request, turning server errors into our error classes
+   */
+  private async call<T>(request: () => Promise<T>): Promise<T> {
+    try {
+      return await request()
+    } catch (error) {
+      throw toBlueskyError(error)
+    }
+  }
+}
@@ -0,0 +1,247 @@
+import { Draft, SceneData } from '../types'
+import { StorageService } from './storage'
+import { blobToDataUrl, dataUrlToBlob } from '../utils/blob'
+
+const SAVE_DELAY_MS = 500
+
+export interface DraftServiceCallbacks {
+  onChange: (drafts: Draft[], activeDraftId: string | null) => void
+}
+
+/**
+ * Named editor drafts stored in IndexedDB. The editor works with data URLs
+ * and Files; this converts to and from the blobs kept in storage and
+ * debounces saves while the author types.
+ */
+export class DraftService {
+  private drafts: Draft[] = []
+  private activeId: string | null = null
+  private saveTimer: ReturnType<typeof setTimeout> | null = null
+  private pendingSave: (() => Promise<void>) | null = null
+
+  // The editor hands back the same data URL on every keystroke; only
+  // convert it to a blob when it changes
+  private lastBackgroundDataUrl = ''
+  private lastBackgroundBlob: Blob | undefined
+
+  constructor(
+    private storage: StorageService,
+    private callbacks: DraftServiceCallbacks
+  ) {}
+
+  /**
+   * Load drafts (migrating the old single draft if needed) and return the
+   * one to open. There is always at least one draft.
+   */
+  async start(): Promise<Draft> {
+    await this.storage.migrateLegacySceneData()
+    this.drafts = await this.storage.loadDrafts()
+
+    const savedId = this.storage.loadActiveDraftId()
+    const active = this.drafts.find(d => d.id === savedId) || this.drafts[0] || await this.createDraft('Draft 1')
+    this.setActive(active)
+    return active
+  }
+
+  getDrafts(): Draft[] {
+    return this.drafts
+  }
+
+  getActiveDraft(): Draft | null {
+    return this.drafts.find(d => d.id === this.activeId) || null
+  }
+
+  /**
+   * Save the editor contents to the active draft after a short pause
+   */
+  saveEditorState(data: SceneData, audioFile: File | null): void {
+    const draftId = this.activeId
+    if (!draftId) return
+
+    if (this.saveTimer) clearTimeout(this.saveTimer)
+    this.pendingSave = () => this.writeEditorState(draftId, data, audioFile)
+    this.saveTimer = setTimeout(() => this.flush(), SAVE_DELAY_MS)
+  }
+
+  /**
+   * Write any pending editor changes now
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer)
+      this.saveTimer = null
+    }
+    const save = this.pendingSave
+    this.pendingSave = null
+    if (!save) return
+
+    try {
+      await save()
+    } catch (error) {
+      console.error('Failed to save draft:', error)
+    }
+  }
+
+  async select(id: string): Promise<Draft | null> {
+    await this.flush()
+    const draft = this.drafts.find(d => d.id === id)
+    if (!draft) return null
+    this.setActive(draft)
+    return draft
+  }
+
+  async create(name: string, storyScene: Pick<Draft, 'storyId' | 'storyNodeId'> = {}): Promise<Draft> {
+    await this.flush()
+    const draft = await this.createDraft(name, storyScene)
+    this.setActive(draft)
+    return draft
+  }
+
+  async duplicate(id: string, name: string): Promise<Draft | null> {
+    await this.flush()
+    const source = this.drafts.find(d => d.id === id)
+    if (!source) return null
+
+    const now = new Date().toISOString()
+    const copy: Draft = { ...source, id: crypto.randomUUID(), name, createdAt: now, updatedAt: now }
+    await this.storage.saveDraft(copy)
+    this.drafts.push(copy)
+    this.setActive(copy)
+    return copy
+  }
+
+  async rename(id: string, name: string): Promise<void> {
+    await this.updateDetails(id, { name })
+  }
+
+  /**
+   * Change a draft's name or the story scene it belongs to
+   */
+  async updateDetails(id: string, details: Partial<Pick<Draft, 'name' | 'storyId' | 'storyNodeId'>>): Promise<void> {
+    const draft = this.drafts.find(d => d.id === id)
+    if (!draft) return
+
+    Object.assign(draft, details, { updatedAt: new Date().toISOString() })
+    await this.storage.saveDraft(draft)
+    this.notify()
+  }
+
+  /**
+   * Delete a draft. Returns the draft that is active afterwards (a fresh
+   * one if the last draft was deleted).
+   */
+  async remove(id: string): Promise<Draft> {
+    if (id === this.activeId) {
+      // Don't let a pending save resurrect the deleted draft
+      if (this.saveTimer) clearTimeout(this.saveTimer)
+      this.saveTimer = null
+      this.pendingSave = null
+    }
+
+    await this.storage.deleteDraft(id)
+    this.drafts = this.drafts.filter(d => d.id !== id)
+
+    const active = this.getActiveDraft() || this.drafts[0] || await this.createDraft('Draft 1')
+    this.setActive(active)
+    return active
+  }
+
+  /**
+   * Add drafts from an archive, replacing any with the same id
+   */
+  async importDrafts(drafts: Draft[]): Promise<void> {
+    await this.flush()
+    for (const draft of drafts) {
+      await this.storage.saveDraft(draft)
+    }
+    this.drafts = await this.storage.loadDrafts()
+    this.notify()
+  }
+
+  /**
+   * Convert a stored draft into what the editor loads
+   */
+  async toScene(draft: Draft): Promise<{ scene: SceneData; audioFile: File | null }> {
+    const backgroundImage = draft.backgroundImage ? await blobToDataUrl(draft.backgroundImage) : undefined
+    if (backgroundImage) {
+      this.lastBackgroundDataUrl = backgroundImage
+      this.lastBackgroundBlob = draft.backgroundImage
+    }
+
+    const audioFile = draft.audio
+      ? new File([draft.audio], draft.audioName || 'audio', { type: draft.audio.type })
+      : null
+
+    return {
+      scene: {
+        postText: draft.postText,
+        imageText: draft.imageText,
+        choices: draft.choices,
+        backgroundImage,
+        backgroundImageName: draft.backgroundImageName,
+        imagePanels: draft.imagePanels,
+        interactions: draft.interactions,
+        labels: draft.labels,
+        linkCard: draft.linkCard,
+      },
+      audioFile,
+    }
+  }
+
+  private async createDraft(name: string, storyScene: Pick<Draft, 'storyId' | 'storyNodeId'> = {}): Promise<Draft> {
+    const now = new Date().toISOString()
+    const draft: Draft = {
+      id: crypto.randomUUID(),
+      name,
+      postText: '',
+      imageText: '',
+      choices: '',
+      ...storyScene,
+      createdAt: now,
+      updatedAt: now,
+    }
+    await this.storage.saveDraft(draft)
+    this.drafts.push(draft)
+    return draft
+  }
+
+  private async writeEditorState(draftId: string, data: SceneData, audioFile: File | null): Promise<void> {
+    const draft = this.drafts.find(d => d.id === draftId)
+    if (!draft) return
+
+    let backgroundImage: Blob | undefined
+    if (data.backgroundImage) {
+      if (data.backgroundImage !== this.lastBackgroundDataUrl) {
+        this.lastBackgroundDataUrl = data.backgroundImage
+        this.lastBackgroundBlob = await dataUrlToBlob(data.backgroundImage)
+      }
+      backgroundImage = this.lastBackgroundBlob
+    }
+
+    Object.assign(draft, {
+      postText: data.postText,
+      imageText: data.imageText,
+      choices: data.choices,
+      backgroundImage,
+      backgroundImageName: backgroundImage ? data.backgroundImageName : undefined,
+      imagePanels: data.imagePanels,
+      interactions: data.interactions,
+      labels: data.labels,
+      linkCard: data.linkCard,
+      audio: audioFile || undefined,
+      audioName: audioFile?.name,
+      updatedAt: new Date().toISOString(),
+    })
+    await this.storage.saveDraft(draft)
+  }
+
+  private setActive(draft: Draft): void {
+    this.activeId = draft.id
+    this.storage.saveActiveDraftId(draft.id)
+    this.notify()
+  }
+
+  private notify(): void {
+    this.callbacks.onChange(this.drafts, this.activeId)
+  }
+}
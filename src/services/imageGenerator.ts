@@ -1,13 +1,17 @@
 import html2canvas from 'html2canvas'
-import { ImageGenerationResult } from '../types'
+import { ImageGenerationResult, PanelAspectRatio } from '../types'
 import { parseMarkdownToHTML, parseChoicesMarkdown } from '../utils/markdown'
+import { getAspectRatioSize } from '../utils/panels'
 
 export class ImageGeneratorService {
   async generateSceneImage(
     sceneText: string,
     choices: string[],
-    backgroundImage?: string
+    backgroundImage?: string,
+    aspectRatio: PanelAspectRatio = 'auto'
   ): Promise<ImageGenerationResult> {
+    const ratioSize = getAspectRatioSize(aspectRatio)
+
     // Create a temporary container for rendering
     const container = document.createElement('div')
     container.style.cssText = `
@@ -97,6 +101,14 @@ export class ImageGeneratorService {
     // Add to document temporarily
     document.body.appendChild(container)
 
+    // A fixed aspect ratio grows the panel to fit; text longer than the
+    // ratio allows still makes the panel taller
+    if (ratioSize) {
+      container.style.boxSizing = 'border-box'
+      container.style.width = '680px'
+      container.style.minHeight = `${Math.round(container.offsetWidth * ratioSize.height / ratioSize.width)}px`
+    }
+
     try {
       // Generate the image with optimized scale for file size
       const canvas = await html2canvas(container, {
@@ -109,8 +121,9 @@ export class ImageGeneratorService {
       const width = canvas.width
       const height = canvas.height
 
-      // Skip cropping if we have a background image - preserve the full background
-      if (backgroundImage) {
+      // Skip cropping if we have a background image - preserve the full background.
+      // A fixed aspect ratio is kept as rendered too.
+      if (backgroundImage || ratioSize) {
         return new Promise((resolve, reject) => {
           canvas.toBlob(
             (blob) => {
@@ -240,7 +253,13 @@ export class ImageGeneratorService {
     }
   }
 
-  async generatePreviewElement(sceneText: string, choices: string[], backgroundImage?: string): Promise<HTMLElement> {
+  async generatePreviewElement(
+    sceneText: string,
+    choices: string[],
+    backgroundImage?: string,
+    aspectRatio: PanelAspectRatio = 'auto'
+  ): Promise<HTMLElement> {
+    const ratioSize = getAspectRatioSize(aspectRatio)
     const previewDiv = document.createElement('div')
     previewDiv.className = 'scene-canvas'
     previewDiv.style.cssText = `
@@ -253,6 +272,7 @@ export class ImageGeneratorService {
       font-size: 1.1rem;
       line-height: 1.6;
       position: relative;
+      ${ratioSize ? `aspect-ratio: ${ratioSize.width} / ${ratioSize.height};` : ''}
     `
 
     // Add overlay if background image is used
@@ -0,0 +1,109 @@
+import { parseLinkMetadata } from '../utils/linkMetadata'
+
+// The dev server's page proxy (see vite.config.ts)
+export const DEV_LINK_PROXY = '/link-proxy'
+
+// Bluesky rejects external embed thumbnails over this size
+const MAX_THUMBNAIL_BYTES = 1000000
+const MAX_THUMBNAIL_WIDTH = 1200
+
+/**
+ * What a link card shows, as found by a fetcher
+ */
+export interface LinkPreview {
+  title: string
+  description: string
+  thumbnail?: Blob // Ready to upload
+}
+
+/**
+ * Looks up the card details for a link. Browsers can't read most sites
+ * directly (CORS), so the app picks a fetcher that goes through a proxy
+ * where one is available; the author can always fill in a card by hand.
+ */
+export type LinkPreviewFetcher = (url: string) => Promise<LinkPreview>
+
+// What a fetcher is reading, for proxies that only pass one kind through
+export type LinkResourceKind = 'page' | 'image'
+
+/**
+ * A fetcher that reads the page and its image through requestUrl, e.g. a
+ * proxy that takes the target as a query parameter
+ */
+export function createPageFetcher(requestUrl: (url: string, kind: LinkResourceKind) => string): LinkPreviewFetcher {
+  return async (url: string) => {
+    const response = await fetch(requestUrl(url, 'page'))
+    if (!response.ok) {
+      throw new Error(`The page returned ${response.status}`)
+    }
+
+    // A proxy reports where redirects ended, for resolving relative image paths
+    const pageUrl = response.headers.get('X-Final-Url') || url
+    const metadata = parseLinkMetadata(await response.text(), pageUrl)
+
+    let thumbnail: Blob | undefined
+    if (metadata.imageUrl) {
+      try {
+        const imageResponse = await fetch(requestUrl(metadata.imageUrl, 'image'))
+        if (imageResponse.ok) {
+          thumbnail = await prepareThumbnail(await imageResponse.blob())
+        }
+      } catch (error) {
+        // The card is still useful without its image
+        console.error('Failed to fetch link thumbnail:', error)
+      }
+    }
+
+    return { title: metadata.title, description: metadata.description, thumbnail }
+  }
+}
+
+/**
+ * Fetch through a proxy that returns the page at ?url= and the image at
+ * ?url=&type=image
+ */
+export function createProxyFetcher(proxyUrl: string): LinkPreviewFetcher {
+  return createPageFetcher((url, kind) => `${proxyUrl}?url=${encodeURIComponent(url)}${kind === 'image' ? '&type=image' : ''}`)
+}
+
+/**
+ * Only works for sites that allow cross-origin reads
+ */
+export const fetchPageDirectly: LinkPreviewFetcher = createPageFetcher(url => url)
+
+/**
+ * The configured proxy, else the dev server's, else a direct fetch
+ */
+export function getDefaultLinkPreviewFetcher(): LinkPreviewFetcher {
+  const proxyUrl = import.meta.env.VITE_LINK_PREVIEW_PROXY || (import.meta.env.DEV ? DEV_LINK_PROXY : '')
+  return proxyUrl ? createProxyFetcher(proxyUrl) : fetchPageDirectly
+}
+
+/**
+ * Scale an image down to a JPEG within the thumbnail size limit. Small
+ * images are returned as they are.
+ */
+export async function prepareThumbnail(blob: Blob): Promise<Blob> {
+  if (!blob.type.startsWith('image/')) {
+    throw new Error('The thumbnail is not an image')
+  }
+  if (blob.size <= MAX_THUMBNAIL_BYTES) {
+    return blob
+  }
+
+  const bitmap = await createImageBitmap(blob)
+  const scale = Math.min(1, MAX_THUMBNAIL_WIDTH / bitmap.width)
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.round(bitmap.width * scale)
+  canvas.height = Math.round(bitmap.height * scale)
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+  bitmap.close()
+
+  for (const quality of [0.85, 0.7, 0.5]) {
+    const resized = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', quality))
+    if (resized && resized.size <= MAX_THUMBNAIL_BYTES) {
+      return resized
+    }
+  }
+  throw new Error('The thumbnail is too large even after resizing')
+}
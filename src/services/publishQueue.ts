@@ -0,0 +1,207 @@
+import { QueuedPost } from '../types'
+import { PostResponse } from './bluesky'
+import { StorageService } from './storage'
+import { RateLimitError } from '../utils/blueskyErrors'
+import { getErrorMessage } from '../utils/errors'
+
+const CHECK_INTERVAL_MS = 30 * 1000
+// Posts more than this overdue when the app wasn't running count as missed
+const MISSED_GRACE_MS = 5 * 60 * 1000
+// Retry delay after a rate limit that didn't say when it resets
+const RATE_LIMIT_RETRY_MS = 5 * 60 * 1000
+
+export interface PublishQueueCallbacks {
+  publish: (item: QueuedPost) => Promise<PostResponse>
+  canPublish: (item: QueuedPost) => boolean // Whether the item's account is signed in
+  onChange: (items: QueuedPost[]) => void
+  onPublished?: (item: QueuedPost) => void
+}
+
+// Scheduled, and its time has come
+function isStillDue(item: QueuedPost): boolean {
+  return item.status === 'scheduled' && new Date(item.publishAt).getTime() <= Date.now()
+}
+
+/**
+ * Publishes scheduled scenes while the tab is open. Anything that came due
+ * while the app wasn't running is marked as missed rather than posted late
+ * without warning; the author decides whether to post it now or reschedule.
+ */
+export class PublishQueue {
+  private timer: ReturnType<typeof setInterval> | null = null
+  private lastAliveAt = Date.now()
+  private isChecking = false
+  private items: QueuedPost[] = []
+
+  constructor(
+    private storage: StorageService,
+    private callbacks: PublishQueueCallbacks
+  ) {}
+
+  async start(): Promise<void> {
+    this.items = await this.storage.loadQueue()
+
+    // A post left mid-publish may or may not have gone out
+    for (const item of this.items.filter(i => i.status === 'publishing')) {
+      await this.update(item.id, {
+        status: 'failed',
+        error: 'Interrupted while publishing. Check Bluesky before retrying.',
+      }, false)
+    }
+
+    this.lastAliveAt = Date.now()
+    this.notify()
+    await this.check()
+
+    if (!this.timer) {
+      this.timer = setInterval(() => this.checkInBackground(), CHECK_INTERVAL_MS)
+      document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'visible') this.checkInBackground()
+      })
+    }
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  getItems(): QueuedPost[] {
+    return this.items
+  }
+
+  async add(item: QueuedPost): Promise<void> {
+    await this.storage.saveQueueItem(item)
+    this.items = await this.storage.loadQueue()
+    this.notify()
+  }
+
+  async update(id: string, changes: Partial<QueuedPost>, notify = true): Promise<void> {
+    const item = this.items.find(i => i.id === id)
+    if (!item) return
+
+    Object.assign(item, changes)
+    await this.storage.saveQueueItem(item)
+    this.items.sort((a, b) => a.publishAt.localeCompare(b.publishAt))
+    if (notify) this.notify()
+  }
+
+  async reschedule(id: string, publishAt: Date): Promise<void> {
+    await this.update(id, { publishAt: publishAt.toISOString(), status: 'scheduled', error: undefined })
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.storage.deleteQueueItem(id)
+    this.items = this.items.filter(i => i.id !== id)
+    this.notify()
+  }
+
+  async clearFinished(): Promise<void> {
+    for (const item of this.items.filter(i => i.status === 'published')) {
+      await this.storage.deleteQueueItem(item.id)
+    }
+    this.items = this.items.filter(i => i.status !== 'published')
+    this.notify()
+  }
+
+  /**
+   * Move a pending item earlier or later by swapping publish times with
+   * its neighbour, so the posting cadence stays the same
+   */
+  async move(id: string, direction: -1 | 1): Promise<void> {
+    const pending = this.items.filter(i => i.status === 'scheduled' || i.status === 'missed')
+    const index = pending.findIndex(i => i.id === id)
+    const neighbour = pending[index + direction]
+    if (index < 0 || !neighbour) return
+
+    const item = pending[index]
+    const itemTime = item.publishAt
+    await this.update(item.id, { publishAt: neighbour.publishAt }, false)
+    await this.update(neighbour.id, { publishAt: itemTime }, false)
+    this.notify()
+  }
+
+  async publishNow(id: string): Promise<void> {
+    const item = this.items.find(i => i.id === id)
+    if (!item) return
+    await this.publishItem(item)
+  }
+
+  private checkInBackground(): void {
+    this.check().catch(error => console.error('Failed to check the publish queue:', error))
+  }
+
+  private async check(): Promise<void> {
+    if (this.isChecking) return
+    this.isChecking = true
+
+    try {
+      const now = Date.now()
+      const due = this.items.filter(isStillDue)
+
+      for (const { id } of due) {
+        // The author may have cancelled, edited or rescheduled it while an
+        // earlier post was going out, here or in another tab
+        const stored = await this.storage.loadQueueItem(id)
+        const item = this.items.find(i => i.id === id)
+        if (!stored || !item || !isStillDue(stored) || !isStillDue(item)) continue
+
+        // Due while the tab was closed (or the machine slept): ask, don't post
+        if (new Date(item.publishAt).getTime() < this.lastAliveAt - MISSED_GRACE_MS) {
+          await this.update(item.id, { status: 'missed' })
+          continue
+        }
+
+        if (!this.callbacks.canPublish(item)) continue
+        await this.publishItem(item)
+      }
+
+      this.lastAliveAt = now
+    } finally {
+      this.isChecking = false
+    }
+  }
+
+  private async publishItem(item: QueuedPost): Promise<void> {
+    if (!this.callbacks.canPublish(item)) {
+      await this.update(item.id, { status: 'failed', error: `@${item.accountHandle} is not signed in` })
+      return
+    }
+
+    await this.update(item.id, { status: 'publishing', error: undefined })
+
+    try {
+      const response = await this.callbacks.publish(item)
+      await this.update(item.id, {
+        status: 'published',
+        postUri: response.uri,
+        postUrl: response.url,
+      })
+      this.callbacks.onPublished?.(item)
+    } catch (error) {
+      console.error('Scheduled post failed:', error)
+
+      // Nothing was posted; try again once the limit resets
+      if (error instanceof RateLimitError) {
+        const retryAt = error.resetAt || new Date(Date.now() + RATE_LIMIT_RETRY_MS)
+        await this.update(item.id, {
+          status: 'scheduled',
+          publishAt: retryAt.toISOString(),
+          error: `Rate limited; retrying at ${retryAt.toLocaleTimeString()}`,
+        })
+        return
+      }
+
+      await this.update(item.id, {
+        status: 'failed',
+        error: getErrorMessage(error, 'Failed to publish'),
+      })
+    }
+  }
+
+  private notify(): void {
+    this.callbacks.onChange(this.items)
+  }
+}
@@ -0,0 +1,177 @@
+import { Post, ReplyPollSettings, ThreadReplies } from '../types'
+import { RateLimitError } from '../utils/blueskyErrors'
+
+// Longest wait after repeated failures or rate limits
+const MAX_BACKOFF_MS = 15 * 60 * 1000
+
+export const REPLY_POLL_INTERVALS = [
+  { seconds: 30, label: '30 sec' },
+  { seconds: 60, label: '1 min' },
+  { seconds: 120, label: '2 min' },
+  { seconds: 300, label: '5 min' },
+]
+
+export type ReplyPollState =
+  | { kind: 'off' }
+  | { kind: 'idle' } // Nothing to watch
+  | { kind: 'hidden' } // Paused while the tab is hidden
+  | { kind: 'waiting'; nextCheck: Date; backoff?: 'rate-limit' | 'error' }
+  | { kind: 'checking' }
+
+export interface ReplyPollerCallbacks {
+  getTarget: () => Post | null // The post whose replies are watched
+  fetchReplies: (post: Post) => Promise<ThreadReplies>
+  onReplies: (post: Post, replies: ThreadReplies) => void
+  onStateChange?: (state: ReplyPollState) => void
+}
+
+/**
+ * Checks the post at the end of the thread path for new replies in the
+ * background. Waits double after each rate limit or failure (up to 15
+ * minutes, or until the server's reset time) and pauses while the tab is
+ * hidden.
+ */
+export class ReplyPoller {
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private isChecking = false
+  private failures = 0
+  private listening = false
+  // After a failure, no request goes out before this time (epoch ms)
+  private backoffUntil = 0
+  private backoffReason: 'rate-limit' | 'error' | undefined
+
+  constructor(
+    private settings: ReplyPollSettings,
+    private callbacks: ReplyPollerCallbacks
+  ) {}
+
+  start(): void {
+    if (!this.listening) {
+      this.listening = true
+      document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'visible') {
+          this.check()
+        } else {
+          this.clearTimer()
+          this.setState({ kind: 'hidden' })
+        }
+      })
+    }
+    this.schedule(this.getIntervalMs())
+  }
+
+  getSettings(): ReplyPollSettings {
+    return this.settings
+  }
+
+  updateSettings(settings: ReplyPollSettings): void {
+    this.settings = settings
+    this.failures = 0
+
+    const backoffMs = this.backoffUntil - Date.now()
+    if (backoffMs > this.getIntervalMs()) {
+      this.schedule(backoffMs, this.backoffReason)
+    } else {
+      this.schedule(this.getIntervalMs())
+    }
+  }
+
+  /**
+   * Check now, e.g. after the path moves to a post whose replies weren't
+   * just fetched, and restart the wait.
+   * While backing off after a failure, waits out the backoff instead.
+   */
+  async check(): Promise<void> {
+    this.clearTimer()
+    if (!this.settings.enabled) {
+      this.setState({ kind: 'off' })
+      return
+    }
+    if (document.visibilityState === 'hidden') {
+      this.setState({ kind: 'hidden' })
+      return
+    }
+    if (this.isChecking) return
+
+    const backoffMs = this.backoffUntil - Date.now()
+    if (backoffMs > 0) {
+      this.schedule(backoffMs, this.backoffReason)
+      return
+    }
+
+    const target = this.callbacks.getTarget()
+    if (!target) {
+      this.setState({ kind: 'idle' })
+      this.schedule(this.getIntervalMs())
+      return
+    }
+
+    this.isChecking = true
+    this.setState({ kind: 'checking' })
+    try {
+      const replies = await this.callbacks.fetchReplies(target)
+      this.failures = 0
+      this.backoffUntil = 0
+      this.callbacks.onReplies(target, replies)
+      this.schedule(this.getIntervalMs())
+    } catch (error) {
+      this.failures++
+      const rateLimited = error instanceof RateLimitError
+      console.error(rateLimited ? 'Reply polling rate limited:' : 'Reply polling failed:', error)
+      const backoffMs = this.getBackoffMs(error)
+      this.backoffUntil = Date.now() + backoffMs
+      this.backoffReason = rateLimited ? 'rate-limit' : 'error'
+      this.schedule(backoffMs, this.backoffReason)
+    } finally {
+      this.isChecking = false
+    }
+  }
+
+  stop(): void {
+    this.clearTimer()
+    this.setState({ kind: 'off' })
+  }
+
+  private schedule(delayMs: number, backoff?: 'rate-limit' | 'error'): void {
+    this.clearTimer()
+    if (!this.settings.enabled) {
+      this.setState({ kind: 'off' })
+      return
+    }
+    if (document.visibilityState === 'hidden') {
+      this.setState({ kind: 'hidden' })
+      return
+    }
+
+    this.timer = setTimeout(() => this.check(), delayMs)
+    this.setState({ kind: 'waiting', nextCheck: new Date(Date.now() + delayMs), backoff })
+  }
+
+  private getIntervalMs(): number {
+    return Math.max(10, this.settings.intervalSeconds) * 1000
+  }
+
+  /**
+   * Double the interval per failure in a row. A rate limit response says
+   * when the limit resets; never retry before then.
+   */
+  private getBackoffMs(error: unknown): number {
+    const backoff = Math.min(MAX_BACKOFF_MS, this.getIntervalMs() * 2 ** this.failures)
+
+    if (error instanceof RateLimitError && error.resetAt) {
+      return Math.max(backoff, error.resetAt.getTime() - Date.now())
+    }
+    return backoff
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+
+  private setState(state: ReplyPollState): void {
+    this.callbacks.onStateChange?.(state)
+  }
+}
@@ -1,54 +1,147 @@
-import { AuthState, SceneData, ThreadState } from '../types'
+import { AuthState, Draft, QueuedPost, ReplyPollSettings, SceneData, SplitSettings, Story, StoryNode, ThreadNode, ThreadState, VotingWindow } from '../types'
+import { openDatabase, requestToPromise, transactionDone } from '../utils/indexedDb'
+import { blobToDataUrl, dataUrlToBlob } from '../utils/blob'
+import { isRecord, isStoredPost, isStoredUnavailablePost } from '../utils/threadView'
+
+/**
+ * Keep a saved thread path up to the first node without a usable post,
+ * dropping replies and placeholders that aren't well formed
+ */
+function restoreThreadPath(nodes: unknown): ThreadNode[] {
+  if (!Array.isArray(nodes)) return []
+
+  const path: ThreadNode[] = []
+  for (const node of nodes as unknown[]) {
+    if (!isRecord(node) || !isStoredPost(node.post)) break
+    path.push({
+      post: node.post,
+      replies: Array.isArray(node.replies) ? node.replies.filter(isStoredPost) : [],
+      unavailableReplies: Array.isArray(node.unavailableReplies) ? node.unavailableReplies.filter(isStoredUnavailablePost) : [],
+      depth: path.length,
+    })
+  }
+  return path
+}
+
+// A story scene's images, kept out of localStorage
+interface StoryMediaRecord {
+  key: string // See storyMediaKey
+  backgroundImage?: Blob
+  linkThumbnail?: Blob
+}
+
+function storyMediaKey(storyId: string, nodeId: string): string {
+  return `${storyId}/${nodeId}`
+}
+
+// Every scene of one story
+function storyMediaRange(storyId: string): IDBKeyRange {
+  return IDBKeyRange.bound(`${storyId}/`, `${storyId}/\uffff`)
+}
+
+function hasSceneMedia(scene: SceneData): boolean {
+  return !!(scene.backgroundImage || scene.linkCard?.thumbnail)
+}
+
+/**
+ * A scene as written to localStorage: data URLs removed, flagged if its
+ * media is in IndexedDB
+ */
+function stripSceneMedia(scene: SceneData, mediaStored: boolean): SceneData {
+  const { backgroundImage: _backgroundImage, ...rest } = scene
+  return {
+    ...rest,
+    linkCard: scene.linkCard && { ...scene.linkCard, thumbnail: undefined },
+    mediaStored: mediaStored || undefined,
+  }
+}
 
 export class StorageService {
-  private readonly AUTH_KEY = 'botadventure_auth'
-  private readonly SCENE_KEY = 'botadventure_scene'
+  private readonly LEGACY_AUTH_KEY = 'botadventure_auth' // Single account, before multi-account support
+  private readonly ACCOUNTS_KEY = 'botadventure_accounts'
+  private readonly ACTIVE_ACCOUNT_KEY = 'botadventure_active_account'
+  private readonly LEGACY_SCENE_KEY = 'botadventure_scene' // Single draft, before drafts moved to IndexedDB
   private readonly THREAD_KEY = 'botadventure_thread'
+  private readonly POSTED_CHOICES_KEY = 'botadventure_posted_choices'
+  private readonly STORIES_KEY = 'botadventure_stories'
+  private readonly ACTIVE_STORY_KEY = 'botadventure_active_story'
+  private readonly VOTING_WINDOWS_KEY = 'botadventure_voting_windows'
+  private readonly ACTIVE_DRAFT_KEY = 'botadventure_active_draft'
+  private readonly SPLIT_SETTINGS_KEY = 'botadventure_split_settings'
+  private readonly REPLY_POLL_KEY = 'botadventure_reply_poll'
+
+  // IndexedDB holds anything with blobs (localStorage can't store them)
+  private readonly DB_NAME = 'botadventure'
+  private readonly DB_VERSION = 3
+  private readonly QUEUE_STORE = 'publishQueue'
+  private readonly DRAFTS_STORE = 'drafts'
+  private readonly STORY_MEDIA_STORE = 'storyMedia'
+  private dbPromise: Promise<IDBDatabase> | null = null
+  private storyMediaWrites: Promise<void> = Promise.resolve() // One at a time, in save order
 
-  // Auth State
-  loadAuthState(): AuthState | null {
-    const stored = localStorage.getItem(this.AUTH_KEY)
+  private getDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(this.DB_NAME, this.DB_VERSION, (db, oldVersion) => {
+        if (oldVersion < 1) {
+          db.createObjectStore(this.QUEUE_STORE, { keyPath: 'id' })
+        }
+        if (oldVersion < 2) {
+          db.createObjectStore(this.DRAFTS_STORE, { keyPath: 'id' })
+        }
+        if (oldVersion < 3) {
+          db.createObjectStore(this.STORY_MEDIA_STORE, { keyPath: 'key' })
+        }
+      })
+    }
+    return this.dbPromise
+  }
+
+  // Accounts
+  loadAccounts(): AuthState[] {
+    const stored = localStorage.getItem(this.ACCOUNTS_KEY)
     if (stored) {
       try {
         return JSON.parse(stored)
+      } catch (e) {
+        console.error('Failed to load accounts:', e)
+      }
+    }
+
+    // Bring over the single account saved by older versions
+    const legacy = localStorage.getItem(this.LEGACY_AUTH_KEY)
+    if (legacy) {
+      try {
+        const state = JSON.parse(legacy)
+        const account: AuthState = { ...state, method: state.method || 'app-password', did: state.did || '' }
+        this.saveAccounts([account])
+        this.saveActiveAccountDid(account.did)
+        localStorage.removeItem(this.LEGACY_AUTH_KEY)
+        return [account]
       } catch (e) {
         console.error('Failed to load auth state:', e)
       }
     }
-    return null
+    return []
   }
 
-  saveAuthState(authState: AuthState | null): void {
-    if (authState) {
-      localStorage.setItem(this.AUTH_KEY, JSON.stringify(authState))
+  saveAccounts(accounts: AuthState[]): void {
+    if (accounts.length > 0) {
+      localStorage.setItem(this.ACCOUNTS_KEY, JSON.stringify(accounts))
     } else {
-      localStorage.removeItem(this.AUTH_KEY)
+      localStorage.removeItem(this.ACCOUNTS_KEY)
     }
   }
 
-  clearAuthState(): void {
-    localStorage.removeItem(this.AUTH_KEY)
+  loadActiveAccountDid(): string | null {
+    return localStorage.getItem(this.ACTIVE_ACCOUNT_KEY)
   }
 
-  // Scene Data
-  loadSceneData(): SceneData | null {
-    const stored = localStorage.getItem(this.SCENE_KEY)
-    if (stored) {
-      try {
-        return JSON.parse(stored)
-      } catch (e) {
-        console.error('Failed to load scene data:', e)
-      }
+  saveActiveAccountDid(did: string | null): void {
+    if (did !== null) {
+      localStorage.setItem(this.ACTIVE_ACCOUNT_KEY, did)
+    } else {
+      localStorage.removeItem(this.ACTIVE_ACCOUNT_KEY)
     }
-    return null
-  }
-
-  saveSceneData(data: SceneData): void {
-    localStorage.setItem(this.SCENE_KEY, JSON.stringify(data))
-  }
-
-  clearSceneData(): void {
-    localStorage.removeItem(this.SCENE_KEY)
   }
 
   // Thread State
@@ -57,11 +150,13 @@ export class StorageService {
     if (stored) {
       try {
         const data = JSON.parse(stored)
+        const threadPath = restoreThreadPath(data.threadPath)
         return {
-          rootPost: data.rootPost || null,
-          threadPath: data.threadPath || [],
-          editingReplyTo: data.editingReplyTo || null,
-          threadUrl: data.threadUrl
+          rootPost: isStoredPost(data.rootPost) ? data.rootPost : threadPath[0]?.post || null,
+          threadPath,
+          editingReplyTo: isStoredPost(data.editingReplyTo) ? data.editingReplyTo : null,
+          threadUrl: data.threadUrl,
+          accountDid: data.accountDid
         }
       } catch (e) {
         console.error('Failed to load thread state:', e)
@@ -78,10 +173,329 @@ export class StorageService {
     localStorage.removeItem(this.THREAD_KEY)
   }
 
+  // Choices of posted scenes, keyed by post URI (used for vote tallying)
+  loadPostedChoices(postUri: string): string | null {
+    const stored = localStorage.getItem(this.POSTED_CHOICES_KEY)
+    if (stored) {
+      try {
+        const data = JSON.parse(stored)
+        return data[postUri] ?? null
+      } catch (e) {
+        console.error('Failed to load posted choices:', e)
+      }
+    }
+    return null
+  }
+
+  savePostedChoices(postUri: string, choices: string): void {
+    let data: Record<string, string> = {}
+    const stored = localStorage.getItem(this.POSTED_CHOICES_KEY)
+    if (stored) {
+      try {
+        data = JSON.parse(stored)
+      } catch (e) {
+        console.error('Failed to load posted choices:', e)
+      }
+    }
+    data[postUri] = choices
+    localStorage.setItem(this.POSTED_CHOICES_KEY, JSON.stringify(data))
+  }
+
+  loadAllPostedChoices(): Record<string, string> {
+    const stored = localStorage.getItem(this.POSTED_CHOICES_KEY)
+    if (stored) {
+      try {
+        return JSON.parse(stored)
+      } catch (e) {
+        console.error('Failed to load posted choices:', e)
+      }
+    }
+    return {}
+  }
+
+  clearPostedChoices(): void {
+    localStorage.removeItem(this.POSTED_CHOICES_KEY)
+  }
+
+  // Stories
+  loadStories(): Story[] {
+    const stored = localStorage.getItem(this.STORIES_KEY)
+    if (stored) {
+      try {
+        return JSON.parse(stored)
+      } catch (e) {
+        console.error('Failed to load stories:', e)
+      }
+    }
+    return []
+  }
+
+  /**
+   * Save a story. Scene backgrounds and link card thumbnails are moved to
+   * IndexedDB as blobs; the rest is written to localStorage straight away,
+   * so loadStories sees it before the returned promise settles.
+   */
+  saveStory(story: Story): Promise<void> {
+    const withNewMedia = story.nodes.filter(node => hasSceneMedia(node.scene))
+    const stored: Story = {
+      ...story,
+      nodes: story.nodes.map(node => ({
+        ...node,
+        scene: stripSceneMedia(node.scene, hasSceneMedia(node.scene) || !!node.scene.mediaStored),
+      })),
+    }
+
+    const stories = this.loadStories().filter(s => s.id !== story.id)
+    stories.push(stored)
+    localStorage.setItem(this.STORIES_KEY, JSON.stringify(stories))
+
+    const write = this.storyMediaWrites
+      .catch(() => undefined)
+      .then(() => this.writeStoryMedia(stored, withNewMedia))
+    this.storyMediaWrites = write
+    return write
+  }
+
+  deleteStory(storyId: string): void {
+    const stories = this.loadStories().filter(s => s.id !== storyId)
+    localStorage.setItem(this.STORIES_KEY, JSON.stringify(stories))
+    if (this.loadActiveStoryId() === storyId) {
+      this.saveActiveStoryId(null)
+    }
+
+    this.storyMediaWrites = this.storyMediaWrites
+      .catch(() => undefined)
+      .then(() => this.writeStoryMedia({ id: storyId, nodes: [] }, []))
+      .catch(e => console.error('Failed to delete story media:', e))
+  }
+
+  /**
+   * A story scene with its background and link thumbnail read back as
+   * data URLs, ready for the editor or for posting
+   */
+  async loadStoryScene(storyId: string, node: StoryNode): Promise<SceneData> {
+    const { mediaStored, ...scene } = node.scene
+    if (!mediaStored) return scene
+
+    const db = await this.getDatabase()
+    const store = db.transaction(this.STORY_MEDIA_STORE, 'readonly').objectStore(this.STORY_MEDIA_STORE)
+    const record = await requestToPromise(store.get(storyMediaKey(storyId, node.id)) as IDBRequest<StoryMediaRecord | undefined>)
+    const linkThumbnail = record?.linkThumbnail ? await blobToDataUrl(record.linkThumbnail) : undefined
+
+    return {
+      ...scene,
+      backgroundImage: record?.backgroundImage ? await blobToDataUrl(record.backgroundImage) : undefined,
+      linkCard: scene.linkCard && { ...scene.linkCard, thumbnail: linkThumbnail },
+    }
+  }
+
+  /**
+   * A story with every scene's media loaded, e.g. for export
+   */
+  async loadStoryMedia(story: Story): Promise<Story> {
+    const nodes: StoryNode[] = []
+    for (const node of story.nodes) {
+      nodes.push({ ...node, scene: await this.loadStoryScene(story.id, node) })
+    }
+    return { ...story, nodes }
+  }
+
+  /**
+   * Store the given scenes' media and drop media for scenes that were
+   * deleted or no longer have any
+   */
+  private async writeStoryMedia(story: Pick<Story, 'id' | 'nodes'>, withNewMedia: StoryNode[]): Promise<void> {
+    const records: StoryMediaRecord[] = []
+    for (const node of withNewMedia) {
+      const { backgroundImage, linkCard } = node.scene
+      records.push({
+        key: storyMediaKey(story.id, node.id),
+        backgroundImage: backgroundImage ? await dataUrlToBlob(backgroundImage) : undefined,
+        linkThumbnail: linkCard?.thumbnail ? await dataUrlToBlob(linkCard.thumbnail) : undefined,
+      })
+    }
+    const keep = new Set(story.nodes.filter(node => node.scene.mediaStored).map(node => storyMediaKey(story.id, node.id)))
+
+    const db = await this.getDatabase()
+    const transaction = db.transaction(this.STORY_MEDIA_STORE, 'readwrite')
+    const store = transaction.objectStore(this.STORY_MEDIA_STORE)
+    records.forEach(record => store.put(record))
+
+    const keys = store.getAllKeys(storyMediaRange(story.id))
+    keys.onsuccess = () => {
+      keys.result.filter(key => !keep.has(String(key))).forEach(key => store.delete(key))
+    }
+    await transactionDone(transaction)
+  }
+
+  loadActiveStoryId(): string | null {
+    return localStorage.getItem(this.ACTIVE_STORY_KEY)
+  }
+
+  saveActiveStoryId(storyId: string | null): void {
+    if (storyId) {
+      localStorage.setItem(this.ACTIVE_STORY_KEY, storyId)
+    } else {
+      localStorage.removeItem(this.ACTIVE_STORY_KEY)
+    }
+  }
+
+  // Voting windows
+  loadVotingWindows(): VotingWindow[] {
+    const stored = localStorage.getItem(this.VOTING_WINDOWS_KEY)
+    if (stored) {
+      try {
+        return JSON.parse(stored)
+      } catch (e) {
+        console.error('Failed to load voting windows:', e)
+      }
+    }
+    return []
+  }
+
+  saveVotingWindows(windows: VotingWindow[]): void {
+    localStorage.setItem(this.VOTING_WINDOWS_KEY, JSON.stringify(windows))
+  }
+
+  // Drafts
+  async loadDrafts(): Promise<Draft[]> {
+    const db = await this.getDatabase()
+    const store = db.transaction(this.DRAFTS_STORE, 'readonly').objectStore(this.DRAFTS_STORE)
+    const drafts = await requestToPromise(store.getAll() as IDBRequest<Draft[]>)
+    return drafts.sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+  }
+
+  async saveDraft(draft: Draft): Promise<void> {
+    const db = await this.getDatabase()
+    const transaction = db.transaction(this.DRAFTS_STORE, 'readwrite')
+    transaction.objectStore(this.DRAFTS_STORE).put(draft)
+    await transactionDone(transaction)
+  }
+
+  async deleteDraft(id: string): Promise<void> {
+    const db = await this.getDatabase()
+    const transaction = db.transaction(this.DRAFTS_STORE, 'readwrite')
+    transaction.objectStore(this.DRAFTS_STORE).delete(id)
+    await transactionDone(transaction)
+  }
+
+  loadActiveDraftId(): string | null {
+    return localStorage.getItem(this.ACTIVE_DRAFT_KEY)
+  }
+
+  saveActiveDraftId(draftId: string | null): void {
+    if (draftId) {
+      localStorage.setItem(this.ACTIVE_DRAFT_KEY, draftId)
+    } else {
+      localStorage.removeItem(this.ACTIVE_DRAFT_KEY)
+    }
+  }
+
+  /**
+   * One-time move of the old single localStorage draft into IndexedDB.
+   * The background image goes from a data URL to a blob. Returns the new
+   * draft, or null if there was nothing to migrate.
+   */
+  async migrateLegacySceneData(): Promise<Draft | null> {
+    const stored = localStorage.getItem(this.LEGACY_SCENE_KEY)
+    if (!stored) return null
+
+    let data: SceneData
+    try {
+      data = JSON.parse(stored)
+    } catch (e) {
+      console.error('Failed to migrate scene data:', e)
+      localStorage.removeItem(this.LEGACY_SCENE_KEY)
+      return null
+    }
+
+    const now = new Date().toISOString()
+    const draft: Draft = {
+      id: crypto.randomUUID(),
+      name: 'Draft 1',
+      postText: data.postText || '',
+      imageText: data.imageText || '',
+      choices: data.choices || '',
+      backgroundImage: data.backgroundImage ? await dataUrlToBlob(data.backgroundImage) : undefined,
+      backgroundImageName: data.backgroundImageName,
+      createdAt: now,
+      updatedAt: now,
+    }
+
+    // Only drop the old key once the draft is safely stored
+    await this.saveDraft(draft)
+    localStorage.removeItem(this.LEGACY_SCENE_KEY)
+    this.saveActiveDraftId(draft.id)
+    return draft
+  }
+
+  loadSplitSettings(): SplitSettings {
+    const defaults: SplitSettings = { enabled: false, numbering: 'slash' }
+    const stored = localStorage.getItem(this.SPLIT_SETTINGS_KEY)
+    if (stored) {
+      try {
+        return { ...defaults, ...JSON.parse(stored) }
+      } catch (e) {
+        console.error('Failed to load split settings:', e)
+      }
+    }
+    return defaults
+  }
+
+  saveSplitSettings(settings: SplitSettings): void {
+    localStorage.setItem(this.SPLIT_SETTINGS_KEY, JSON.stringify(settings))
+  }
+
+  loadReplyPollSettings(): ReplyPollSettings {
+    const defaults: ReplyPollSettings = { enabled: true, intervalSeconds: 60 }
+    const stored = localStorage.getItem(this.REPLY_POLL_KEY)
+    if (stored) {
+      try {
+        return { ...defaults, ...JSON.parse(stored) }
+      } catch (e) {
+        console.error('Failed to load reply polling settings:', e)
+      }
+    }
+    return defaults
+  }
+
+  saveReplyPollSettings(settings: ReplyPollSettings): void {
+    localStorage.setItem(this.REPLY_POLL_KEY, JSON.stringify(settings))
+  }
+
+  // Scheduled publishing queue
+  async loadQueue(): Promise<QueuedPost[]> {
+    const db = await this.getDatabase()
+    const store = db.transaction(this.QUEUE_STORE, 'readonly').objectStore(this.QUEUE_STORE)
+    const items = await requestToPromise(store.getAll() as IDBRequest<QueuedPost[]>)
+    return items.sort((a, b) => a.publishAt.localeCompare(b.publishAt))
+  }
+
+  async loadQueueItem(id: string): Promise<QueuedPost | undefined> {
+    const db = await this.getDatabase()
+    const store = db.transaction(this.QUEUE_STORE, 'readonly').objectStore(this.QUEUE_STORE)
+    return requestToPromise(store.get(id) as IDBRequest<QueuedPost | undefined>)
+  }
+
+  async saveQueueItem(item: QueuedPost): Promise<void> {
+    const db = await this.getDatabase()
+    const transaction = db.transaction(this.QUEUE_STORE, 'readwrite')
+    transaction.objectStore(this.QUEUE_STORE).put(item)
+    await transactionDone(transaction)
+  }
+
+  async deleteQueueItem(id: string): Promise<void> {
+    const db = await this.getDatabase()
+    const transaction = db.transaction(this.QUEUE_STORE, 'readwrite')
+    transaction.objectStore(this.QUEUE_STORE).delete(id)
+    await transactionDone(transaction)
+  }
+
   // Clear all data
   clearAll(): void {
-    this.clearAuthState()
-    this.clearSceneData()
+    this.saveAccounts([])
+    this.saveActiveAccountDid(null)
     this.clearThreadState()
+    this.clearPostedChoices()
   }
 }
\ No newline at end of file
@@ -0,0 +1,220 @@
+import { Post, VotingWindow } from '../types'
+import { BlueskyService } from './bluesky'
+import { StorageService } from './storage'
+import { ReplyLikes, VoteTally, parseChoices, tallyVotes } from '../utils/voteTally'
+import { isPostView, splitReplies } from '../utils/threadView'
+import { getErrorMessage } from '../utils/errors'
+
+const CHECK_INTERVAL_MS = 30 * 1000
+
+export interface VotingWindowCallbacks {
+  canCheck: () => boolean
+  onChange: (windows: VotingWindow[]) => void
+  onDecided: (window: VotingWindow) => void
+}
+
+/**
+ * Tracks voting deadlines on posted scenes. When a deadline passes the
+ * replies are tallied and the winner is locked in; what happens next is
+ * up to the onDecided callback.
+ */
+export class VotingWindowService {
+  private timer: ReturnType<typeof setInterval> | null = null
+  private isChecking = false
+  private windows: VotingWindow[] = []
+
+  constructor(
+    private storage: StorageService,
+    private bluesky: BlueskyService,
+    private callbacks: VotingWindowCallbacks
+  ) {}
+
+  start(): void {
+    this.windows = this.storage.loadVotingWindows()
+    this.notify()
+
+    if (!this.timer) {
+      this.timer = setInterval(() => this.checkInBackground(), CHECK_INTERVAL_MS)
+      document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'visible') this.checkInBackground()
+      })
+    }
+    this.checkInBackground()
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  getWindows(): VotingWindow[] {
+    return this.windows
+  }
+
+  getWindowForScene(sceneUri: string): VotingWindow | undefined {
+    return this.windows.find(w => w.scene.uri === sceneUri && w.status === 'open')
+  }
+
+  open(scenePost: Post, root: { uri: string; cid: string }, choices: string, deadline: Date, replyUnder: VotingWindow['replyUnder']): VotingWindow {
+    // One open window per scene
+    this.windows = this.windows.filter(w => !(w.scene.uri === scenePost.uri && w.status === 'open'))
+
+    const window: VotingWindow = {
+      id: crypto.randomUUID(),
+      scene: {
+        uri: scenePost.uri,
+        cid: scenePost.cid,
+        authorDid: scenePost.author.did,
+        text: scenePost.record.text,
+      },
+      root,
+      choices,
+      deadline: deadline.toISOString(),
+      replyUnder,
+      status: 'open',
+      createdAt: new Date().toISOString(),
+    }
+    this.windows.push(window)
+    this.persist()
+    return window
+  }
+
+  update(id: string, changes: Partial<VotingWindow>): void {
+    const window = this.windows.find(w => w.id === id)
+    if (!window) return
+    Object.assign(window, changes)
+    this.persist()
+  }
+
+  extend(id: string, deadline: Date): void {
+    this.update(id, { deadline: deadline.toISOString(), status: 'open', error: undefined })
+  }
+
+  remove(id: string): void {
+    this.windows = this.windows.filter(w => w.id !== id)
+    this.persist()
+  }
+
+  async closeNow(id: string): Promise<void> {
+    const window = this.windows.find(w => w.id === id)
+    if (!window || (window.status !== 'open' && window.status !== 'failed')) return
+    await this.close(window)
+  }
+
+  /**
+   * Settle a tie (or an empty vote) by hand
+   */
+  pickWinner(id: string, choiceIndex: number): void {
+    const window = this.windows.find(w => w.id === id)
+    if (!window) return
+
+    const choice = parseChoices(window.choices).find(c => c.index === choiceIndex)
+    if (!choice) return
+
+    window.status = 'decided'
+    window.winner = {
+      choiceIndex,
+      label: choice.label,
+      votes: window.winner?.votes || 0,
+      reply: window.winner?.choiceIndex === choiceIndex ? window.winner.reply : undefined,
+    }
+    window.tiedChoices = undefined
+    this.persist()
+    this.callbacks.onDecided(window)
+  }
+
+  /**
+   * Fetch replies and likes for a scene post and tally them
+   */
+  async tallyScene(sceneUri: string, sceneAuthorDid: string, choicesText: string): Promise<{ tally: VoteTally; replies: Post[] }> {
+    const view = await this.bluesky.getThreadView(sceneUri, 1)
+    if (!isPostView(view)) throw new Error('The scene post was deleted or can\'t be reached')
+    const replies = splitReplies(view.replies).posts
+
+    const likes: ReplyLikes[] = []
+    for (const reply of replies) {
+      if (reply.likeCount && reply.likeCount > 0) {
+        likes.push({ replyUri: reply.uri, likers: await this.bluesky.getLikers(reply.uri) })
+      }
+    }
+
+    const tally = tallyVotes(replies, parseChoices(choicesText), { sceneAuthorDid, likes })
+    return { tally, replies }
+  }
+
+  private checkInBackground(): void {
+    this.check().catch(error => console.error('Failed to check voting windows:', error))
+  }
+
+  private async check(): Promise<void> {
+    if (this.isChecking || !this.callbacks.canCheck()) return
+    this.isChecking = true
+
+    try {
+      const now = Date.now()
+      const due = this.windows.filter(w => w.status === 'open' && new Date(w.deadline).getTime() <= now)
+      for (const window of due) {
+        await this.close(window)
+      }
+    } finally {
+      this.isChecking = false
+    }
+  }
+
+  private async close(window: VotingWindow): Promise<void> {
+    try {
+      const { tally } = await this.tallyScene(window.scene.uri, window.scene.authorDid, window.choices)
+
+      if (tally.winners.length === 0) {
+        this.update(window.id, { status: 'no-votes', error: undefined })
+        return
+      }
+
+      if (tally.winners.length > 1) {
+        this.update(window.id, {
+          status: 'tied',
+          tiedChoices: tally.winners.map(c => ({ choiceIndex: c.index, label: c.label })),
+          error: undefined,
+        })
+        return
+      }
+
+      const winner = tally.winners[0]
+      const result = tally.results.find(r => r.choice.index === winner.index)!
+
+      // The reply to continue under: most liked, then earliest
+      const winningReply = tally.votes
+        .filter(v => v.choiceIndex === winner.index && v.source === 'reply')
+        .map(v => v.reply)
+        .sort((a, b) => (b.likeCount || 0) - (a.likeCount || 0) || a.record.createdAt.localeCompare(b.record.createdAt))[0]
+
+      this.update(window.id, {
+        status: 'decided',
+        winner: {
+          choiceIndex: winner.index,
+          label: winner.label,
+          votes: result.votes,
+          reply: winningReply
+            ? { uri: winningReply.uri, cid: winningReply.cid, handle: winningReply.author.handle }
+            : undefined,
+        },
+        error: undefined,
+      })
+      this.callbacks.onDecided(window)
+    } catch (error) {
+      console.error('Failed to close voting window:', error)
+      this.update(window.id, { status: 'failed', error: getErrorMessage(error, 'Failed to tally votes') })
+    }
+  }
+
+  private persist(): void {
+    this.storage.saveVotingWindows(this.windows)
+    this.notify()
+  }
+
+  private notify(): void {
+    this.callbacks.onChange(this.windows)
+  }
+}
@@ -1,9 +1,20 @@
+import type { AppBskyFeedDefs, AppBskyRichtextFacet, AtpSessionData } from '@atproto/api'
+
+export type AuthMethod = 'oauth' | 'app-password'
+
 export interface AuthState {
+  method: AuthMethod
   handle: string
-  appPassword: string
-  session?: any
+  did: string
+  session?: AtpSessionData // App-password mode only; OAuth tokens live in the OAuth client's own store
+  appPassword?: string // Only in state saved by older versions; dropped on the next restore
+  service?: string // PDS URL, set by the user or discovered from the DID document
+  webAppUrl?: string // Web app that post links point to; bsky.app when not set
 }
 
+// Server settings entered when signing in an account
+export type AccountSettings = Pick<AuthState, 'service' | 'webAppUrl'>
+
 export interface Post {
   uri: string
   cid: string
@@ -15,30 +26,149 @@ export interface Post {
   record: {
     text: string
     createdAt: string
+    facets?: AppBskyRichtextFacet.Main[]
     reply?: {
       root: { uri: string; cid: string }
       parent: { uri: string; cid: string }
     }
   }
-  embed?: any
+  embed?: AppBskyFeedDefs.PostView['embed']
   replyCount?: number
   repostCount?: number
   likeCount?: number
+  quoteCount?: number
   indexedAt: string
 }
 
+// A post in a thread that the AppView can't show. 'deleted' is a post we
+// had loaded that has since gone; 'notFound' is one we never saw;
+// 'invalid' is one whose record couldn't be read.
+export interface UnavailablePost {
+  uri: string
+  status: 'deleted' | 'blocked' | 'notFound' | 'invalid'
+  authorDid?: string // Blocked posts only
+}
+
+// Direct replies to a post, split into ones we can show and placeholders
+export interface ThreadReplies {
+  posts: Post[]
+  unavailable: UnavailablePost[]
+}
+
 export interface ThreadNode {
   post: Post
   replies?: Post[]
+  unavailableReplies?: UnavailablePost[] // Shown as placeholders
   depth: number
 }
 
 export interface SceneData {
   postText: string
-  imageText: string
+  imageText: string // Panels are separated by a line containing only ---
   choices: string
   backgroundImage?: string // Base64 data URL of the background image
   backgroundImageName?: string // Original filename for reference
+  imagePanels?: ImagePanelSettings[] // In panel order
+  interactions?: InteractionSettings // Unset: use the story default
+  labels?: ContentLabel[] // Unset: use the story default
+  linkCard?: LinkCard // Only posted when the scene has no image or video
+  mediaStored?: boolean // Saved story scenes: the background and link thumbnail are in IndexedDB
+}
+
+// How the parts of a split post are numbered, e.g. 'slash' gives "1/3"
+export type NumberingStyle = 'slash' | 'parens' | 'thread' | 'none'
+
+// Posting text over the character limit as a chain of self-replies
+export interface SplitSettings {
+  enabled: boolean
+  numbering: NumberingStyle
+}
+
+// Background checks for new replies on the post at the end of the thread path
+export interface ReplyPollSettings {
+  enabled: boolean
+  intervalSeconds: number
+}
+
+// Who besides the author may reply to a new thread (a threadgate)
+export type ReplyRule = 'mention' | 'follower' | 'following' | 'list'
+
+// Reply and quote controls for a post. Anyone can reply unless replyRules
+// is set; an empty list means only the author can reply.
+export interface InteractionSettings {
+  replyRules?: ReplyRule[]
+  replyListUri?: string // List for the 'list' rule
+  disableQuotes?: boolean // Attaches a postgate
+}
+
+// Self-labels for content warnings: adult content labels and graphic media
+export type ContentLabel = 'sexual' | 'nudity' | 'porn' | 'graphic-media'
+
+// A preview card for a web link (an external embed)
+export interface LinkCard {
+  uri: string
+  title: string
+  description: string
+  thumbnail?: string // Base64 data URL
+}
+
+export type PanelAspectRatio = 'auto' | '1:1' | '4:5' | '16:9'
+
+export interface ImagePanelSettings {
+  alt?: string // Generated from the panel text when empty
+  aspectRatio?: PanelAspectRatio // 'auto' fits the text
+}
+
+/**
+ * A named editor draft. Media is kept as blobs in IndexedDB rather than
+ * data URLs, so large images don't run into localStorage quota.
+ */
+export interface Draft {
+  id: string
+  name: string
+  postText: string
+  imageText: string
+  choices: string
+  backgroundImage?: Blob
+  backgroundImageName?: string
+  imagePanels?: ImagePanelSettings[]
+  interactions?: InteractionSettings
+  labels?: ContentLabel[]
+  linkCard?: LinkCard
+  audio?: Blob
+  audioName?: string
+  storyId?: string // The story scene the draft was opened from
+  storyNodeId?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface StoryNode {
+  id: string
+  title: string
+  scene: SceneData
+  isEnding?: boolean
+  post?: { uri: string; cid: string } // Set once the scene is published to Bluesky
+}
+
+export interface StoryEdge {
+  id: string
+  from: string // Parent scene node id
+  to: string // Child scene node id
+  choice: string // The choice text that leads from parent to child
+}
+
+export interface Story {
+  id: string
+  title: string
+  rootNodeId: string | null
+  nodes: StoryNode[]
+  edges: StoryEdge[]
+  accountDid?: string // Bot account that posts the story
+  interactions?: InteractionSettings // Default reply and quote controls for its scenes
+  labels?: ContentLabel[] // Default content warning for its scenes
+  createdAt: string
+  updatedAt: string
 }
 
 export interface ThreadState {
@@ -46,6 +176,74 @@ export interface ThreadState {
   threadPath: ThreadNode[]
   editingReplyTo: Post | null
   threadUrl?: string
+  accountDid?: string // Bot account that posts in this thread
+}
+
+export interface ReplyRef {
+  root: { uri: string; cid: string }
+  parent: { uri: string; cid: string }
+}
+
+// An earlier post embedded in a new one
+export interface QuoteRef {
+  uri: string
+  cid: string
+  handle: string // For display only
+}
+
+export interface SceneMedia {
+  kind: 'image' | 'video'
+  blob: Blob
+  alt: string
+  dimensions?: { width: number; height: number }
+}
+
+export type QueuedPostStatus = 'scheduled' | 'publishing' | 'published' | 'missed' | 'failed'
+
+export interface QueuedPost {
+  id: string
+  publishAt: string // ISO timestamp
+  status: QueuedPostStatus
+  text: string // Final post text, choices included for text-only posts
+  leadingParts?: string[] // A split scene's earlier parts, posted first as self-replies; text is the last part
+  choices: string
+  media?: SceneMedia[] // Rendered at scheduling time: up to four images or one video
+  replyTo?: ReplyRef
+  replyToHandle?: string // For display only
+  quote?: QuoteRef
+  interactions?: InteractionSettings // Resolved against the story default when scheduled
+  labels?: ContentLabel[]
+  linkCard?: LinkCard
+  accountHandle: string // Account that scheduled the post and must publish it
+  accountDid?: string // Missing on posts scheduled before multi-account support
+  storyId?: string
+  storyNodeId?: string
+  createdAt: string
+  error?: string
+  postUri?: string
+  postUrl?: string
+}
+
+export type VotingWindowStatus = 'open' | 'decided' | 'tied' | 'no-votes' | 'failed'
+
+export interface VotingWindow {
+  id: string
+  scene: { uri: string; cid: string; authorDid: string; text: string }
+  root: { uri: string; cid: string }
+  choices: string
+  deadline: string // ISO timestamp
+  replyUnder: 'scene' | 'winning-reply' // Where the next scene gets posted
+  status: VotingWindowStatus
+  winner?: {
+    choiceIndex: number
+    label: string
+    votes: number
+    reply?: { uri: string; cid: string; handle: string } // Most-liked reply voting for the winner
+  }
+  tiedChoices?: { choiceIndex: number; label: string }[]
+  outcome?: string // What happened after the vote closed
+  error?: string
+  createdAt: string
 }
 
 export interface ImageGenerationResult {
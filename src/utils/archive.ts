@@ -0,0 +1,169 @@
+import { Draft, QueuedPost, SceneMedia, Story, ThreadState } from '../types'
+import { blobToDataUrl, dataUrlToBlob } from './blob'
+import { ZipEntry, createZip, readZip } from './zip'
+
+const ARCHIVE_FORMAT = 'botadventure-archive'
+const ARCHIVE_VERSION = 1
+const MANIFEST_PATH = 'manifest.json'
+
+/**
+ * Everything needed to carry a story to another browser
+ */
+export interface AdventureArchive {
+  story: Story
+  drafts: Draft[]
+  threadState: ThreadState | null
+  postedChoices: Record<string, string> // Keyed by post URI
+  queue: QueuedPost[] // Scheduled posts, with their rendered media
+}
+
+// A media file stored next to the manifest
+interface AssetRef {
+  path: string
+  type: string
+}
+
+type ArchivedDraft = Omit<Draft, 'backgroundImage' | 'audio'> & {
+  backgroundImage?: AssetRef
+  audio?: AssetRef
+}
+
+type ArchivedMedia = Omit<SceneMedia, 'blob'> & { blob: AssetRef }
+
+type ArchivedQueuedPost = Omit<QueuedPost, 'media'> & {
+  media?: ArchivedMedia[]
+}
+
+interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT
+  version: number
+  exportedAt: string
+  story: Story // Node background images are moved to storyBackgrounds
+  storyBackgrounds: Record<string, AssetRef> // Keyed by story node id
+  drafts: ArchivedDraft[]
+  threadState: ThreadState | null
+  postedChoices: Record<string, string>
+  queue: ArchivedQueuedPost[]
+}
+
+function extensionFor(type: string): string {
+  const subtype = type.split('/')[1]?.split(';')[0]
+  return subtype || 'bin'
+}
+
+/**
+ * Pack an adventure into a zip: a JSON manifest plus one file per image,
+ * audio clip or video
+ */
+export async function buildArchive(archive: AdventureArchive): Promise<Blob> {
+  const entries: ZipEntry[] = []
+
+  const addAsset = async (name: string, blob: Blob): Promise<AssetRef> => {
+    const type = blob.type || 'application/octet-stream'
+    const path = `assets/${name}.${extensionFor(type)}`
+    entries.push({ name: path, data: new Uint8Array(await blob.arrayBuffer()) })
+    return { path, type }
+  }
+
+  const storyBackgrounds: Record<string, AssetRef> = {}
+  const story: Story = {
+    ...archive.story,
+    nodes: await Promise.all(archive.story.nodes.map(async node => {
+      if (!node.scene.backgroundImage) return node
+      storyBackgrounds[node.id] = await addAsset(`scene-${node.id}-background`, await dataUrlToBlob(node.scene.backgroundImage))
+      return { ...node, scene: { ...node.scene, backgroundImage: undefined } }
+    })),
+  }
+
+  const drafts: ArchivedDraft[] = []
+  for (const draft of archive.drafts) {
+    drafts.push({
+      ...draft,
+      backgroundImage: draft.backgroundImage ? await addAsset(`draft-${draft.id}-background`, draft.backgroundImage) : undefined,
+      audio: draft.audio ? await addAsset(`draft-${draft.id}-audio`, draft.audio) : undefined,
+    })
+  }
+
+  const queue: ArchivedQueuedPost[] = []
+  for (const item of archive.queue) {
+    const media: ArchivedMedia[] = []
+    for (const [index, m] of (item.media || []).entries()) {
+      media.push({ ...m, blob: await addAsset(`queued-${item.id}-${m.kind}-${index + 1}`, m.blob) })
+    }
+    queue.push({ ...item, media: media.length ? media : undefined })
+  }
+
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    story,
+    storyBackgrounds,
+    drafts,
+    threadState: archive.threadState,
+    postedChoices: archive.postedChoices,
+    queue,
+  }
+
+  const manifestEntry: ZipEntry = {
+    name: MANIFEST_PATH,
+    data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)),
+  }
+  return createZip([manifestEntry, ...entries])
+}
+
+/**
+ * Unpack a zip made by buildArchive
+ */
+export async function readArchive(file: Blob): Promise<AdventureArchive> {
+  const files = await readZip(file)
+  const manifestData = files.get(MANIFEST_PATH)
+  if (!manifestData) {
+    throw new Error('This file is not a BotAdventure archive')
+  }
+
+  const manifest: ArchiveManifest = JSON.parse(new TextDecoder().decode(manifestData))
+  if (manifest.format !== ARCHIVE_FORMAT) {
+    throw new Error('This file is not a BotAdventure archive')
+  }
+  if (manifest.version > ARCHIVE_VERSION) {
+    throw new Error('This archive was made by a newer version of the app')
+  }
+
+  const loadAsset = (ref: AssetRef): Blob => {
+    const data = files.get(ref.path)
+    if (!data) {
+      throw new Error(`Archive is missing ${ref.path}`)
+    }
+    // Copy out so the blob doesn't keep the whole archive in memory
+    return new Blob([data.slice()], { type: ref.type })
+  }
+
+  const story: Story = {
+    ...manifest.story,
+    nodes: await Promise.all(manifest.story.nodes.map(async node => {
+      const background = manifest.storyBackgrounds[node.id]
+      if (!background) return node
+      return { ...node, scene: { ...node.scene, backgroundImage: await blobToDataUrl(loadAsset(background)) } }
+    })),
+  }
+
+  const drafts: Draft[] = manifest.drafts.map(draft => ({
+    ...draft,
+    backgroundImage: draft.backgroundImage ? loadAsset(draft.backgroundImage) : undefined,
+    audio: draft.audio ? loadAsset(draft.audio) : undefined,
+  }))
+
+  const queue: QueuedPost[] = manifest.queue.map(item => ({
+    ...item,
+    media: item.media?.map(m => ({ ...m, blob: loadAsset(m.blob) })),
+  }))
+
+  return {
+    story,
+    drafts,
+    threadState: manifest.threadState,
+    postedChoices: manifest.postedChoices || {},
+    queue,
+  }
+}
@@ -0,0 +1,108 @@
+// Error codes the server uses when the session is missing or no longer valid
+const AUTH_ERROR_CODES = ['AuthRequired', 'AuthenticationRequired', 'ExpiredToken', 'InvalidToken']
+
+/**
+ * Base class for Bluesky failures the UI handles on their own. The error
+ * from @atproto/api is kept as the cause.
+ */
+export class BlueskyError extends Error {
+  constructor(message: string, readonly cause?: unknown) {
+    super(message)
+    this.name = 'BlueskyError'
+  }
+}
+
+// Too many requests; nothing should be retried before resetAt
+export class RateLimitError extends BlueskyError {
+  constructor(readonly resetAt: Date | null, cause?: unknown) {
+    super(
+      resetAt
+        ? `Bluesky rate limit reached. Try again after ${resetAt.toLocaleTimeString()}.`
+        : 'Bluesky rate limit reached. Try again in a few minutes.',
+      cause
+    )
+    this.name = 'RateLimitError'
+  }
+}
+
+// The account has to sign in again
+export class AuthError extends BlueskyError {
+  constructor(cause?: unknown) {
+    super('Your Bluesky session has expired or was revoked. Sign in again.', cause)
+    this.name = 'AuthError'
+  }
+}
+
+// The requested post or record doesn't exist, e.g. it was deleted
+export class NotFoundError extends BlueskyError {
+  constructor(message: string, cause?: unknown) {
+    super(message, cause)
+    this.name = 'NotFoundError'
+  }
+}
+
+// A record or response that doesn't have the shape the lexicon describes
+export class BadRecordError extends BlueskyError {
+  constructor(message: string, readonly uri?: string, cause?: unknown) {
+    super(message, cause)
+    this.name = 'BadRecordError'
+  }
+}
+
+// The parts of an XRPC error we read. XRPCError isn't exported by
+// @atproto/api, so it's recognised by shape.
+interface XrpcErrorFields {
+  status?: number
+  error?: string
+  message: string
+  resetSeconds?: number // From the ratelimit-reset header, in epoch seconds
+  lexiconNsid?: string // Set when the response failed lexicon validation
+}
+
+function readXrpcError(error: unknown): XrpcErrorFields | null {
+  if (typeof error !== 'object' || error === null) return null
+
+  const fields: XrpcErrorFields = {
+    message: 'message' in error && typeof error.message === 'string' ? error.message : '',
+  }
+  if ('status' in error && typeof error.status === 'number') fields.status = error.status
+  if ('error' in error && typeof error.error === 'string') fields.error = error.error
+  if ('headers' in error && typeof error.headers === 'object' && error.headers !== null && 'ratelimit-reset' in error.headers) {
+    const reset = Number(error.headers['ratelimit-reset'])
+    if (reset > 0) fields.resetSeconds = reset
+  }
+  if ('lexiconNsid' in error && typeof error.lexiconNsid === 'string' && 'validationError' in error) {
+    fields.lexiconNsid = error.lexiconNsid
+  }
+  return fields
+}
+
+/**
+ * Map an error thrown by @atproto/api to one of the classes above, or
+ * return it unchanged
+ */
+export function toBlueskyError(error: unknown): unknown {
+  if (error instanceof BlueskyError) return error
+
+  const xrpc = readXrpcError(error)
+  if (!xrpc) return error
+
+  if (xrpc.status === 429) {
+    return new RateLimitError(xrpc.resetSeconds ? new Date(xrpc.resetSeconds * 1000) : null, error)
+  }
+  if (xrpc.status === 401 || (xrpc.error !== undefined && AUTH_ERROR_CODES.includes(xrpc.error))) {
+    return new AuthError(error)
+  }
+  if (xrpc.error === 'NotFound') {
+    return new NotFoundError(xrpc.message || 'Post not found', error)
+  }
+  // A response that failed lexicon validation on the client
+  if (xrpc.lexiconNsid) {
+    return new BadRecordError(`Bluesky sent a ${xrpc.lexiconNsid} response that couldn't be read`, undefined, error)
+  }
+  // A record the PDS rejected, e.g. "Invalid app.bsky.feed.post record: ..."
+  if (xrpc.error === 'InvalidRequest' && /\brecord\b/i.test(xrpc.message)) {
+    return new BadRecordError(xrpc.message, undefined, error)
+  }
+  return error
+}
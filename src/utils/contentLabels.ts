@@ -0,0 +1,30 @@
+import { ContentLabel } from '../types'
+
+/**
+ * Self-labels a post can carry. Bluesky allows one adult content label,
+ * optionally alongside graphic media; both mainly cover a post's media.
+ */
+
+export const CONTENT_LABEL_NAMES: Record<ContentLabel, string> = {
+  sexual: 'Suggestive',
+  nudity: 'Nudity',
+  porn: 'Adult Content',
+  'graphic-media': 'Graphic Media',
+}
+
+export const ADULT_LABELS: ContentLabel[] = ['sexual', 'nudity', 'porn']
+
+/**
+ * The post record's labels field, or undefined for no labels
+ */
+export function buildSelfLabels(labels: ContentLabel[] | undefined): { $type: string; values: { val: string }[] } | undefined {
+  if (!labels?.length) return undefined
+  return {
+    $type: 'com.atproto.label.defs#selfLabels',
+    values: labels.map(val => ({ val })),
+  }
+}
+
+export function describeLabels(labels: ContentLabel[] | undefined): string {
+  return labels?.length ? labels.map(label => CONTENT_LABEL_NAMES[label]).join(', ') : 'None'
+}
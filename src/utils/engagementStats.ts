@@ -0,0 +1,180 @@
+import { ThreadTreeNode } from './threadTree'
+
+const HOUR_MS = 60 * 60 * 1000
+
+// How soon after a scene was posted its replies are counted
+export const REPLY_WINDOWS = [
+  { label: '1h', ms: HOUR_MS },
+  { label: '24h', ms: 24 * HOUR_MS },
+  { label: '7d', ms: 7 * 24 * HOUR_MS },
+]
+
+export interface EngagementCounts {
+  likes: number
+  reposts: number
+  quotes: number
+  replies: number // Reader replies, nested ones included
+  uniqueRepliers: number
+}
+
+export interface SceneStats extends EngagementCounts {
+  uri: string
+  label: string
+  postedAt: string
+  depth: number // Scenes above this one
+  repliesWithin: number[] // Reader replies within each of REPLY_WINDOWS
+  repliesPerHour: number // Averaged since posting, over at least an hour
+}
+
+// One path through the story, from the first scene to a scene with no
+// scenes after it
+export interface BranchStats extends EngagementCounts {
+  label: string // The scene the branch ends at
+  sceneUris: string[] // First scene first
+  scenes: number
+  likesPerScene: number
+}
+
+export interface EngagementStats {
+  scenes: SceneStats[] // Depth-first, in posting order
+  branches: BranchStats[]
+  totals: EngagementCounts
+  generatedAt: string
+}
+
+// A scene with the reader comments that answer it, before the next scene
+interface SceneEntry {
+  node: ThreadTreeNode
+  depth: number
+  readerPosts: ThreadTreeNode[]
+  repliers: Set<string>
+  childScenes: SceneEntry[]
+}
+
+function collectScenes(node: ThreadTreeNode, depth: number): SceneEntry {
+  const entry: SceneEntry = { node, depth, readerPosts: [], repliers: new Set(), childScenes: [] }
+
+  const walk = (child: ThreadTreeNode): void => {
+    if (child.isScene) {
+      entry.childScenes.push(collectScenes(child, depth + 1))
+      return
+    }
+    entry.readerPosts.push(child)
+    entry.repliers.add(child.post.author.did)
+    child.children.forEach(walk)
+  }
+  node.children.forEach(walk)
+
+  return entry
+}
+
+function describeScene(node: ThreadTreeNode, titles: Map<string, string>): string {
+  const title = titles.get(node.post.uri)
+  if (title) return title
+
+  const firstLine = node.post.record.text.split('\n').find(line => line.trim())?.trim() || '(no text)'
+  return firstLine.length > 50 ? firstLine.slice(0, 50) + '…' : firstLine
+}
+
+/**
+ * Sum up likes, reposts, quotes and reader replies for every scene in a
+ * thread, and for every branch of the story. Titles label scenes that
+ * were published from the story planner.
+ */
+export function buildEngagementStats(
+  root: ThreadTreeNode,
+  titles: Map<string, string> = new Map(),
+  now: Date = new Date()
+): EngagementStats {
+  const rootScene = collectScenes(root, 0)
+  const scenes: SceneStats[] = []
+  const branches: BranchStats[] = []
+  const allRepliers = new Set<string>()
+
+  const visit = (entry: SceneEntry, path: SceneEntry[]): void => {
+    const post = entry.node.post
+    const postedAt = new Date(post.indexedAt).getTime()
+    const replyTimes = entry.readerPosts.map(reader => new Date(reader.post.indexedAt).getTime() - postedAt)
+    const hours = Math.max(1, (now.getTime() - postedAt) / HOUR_MS)
+    entry.repliers.forEach(did => allRepliers.add(did))
+
+    scenes.push({
+      uri: post.uri,
+      label: describeScene(entry.node, titles),
+      postedAt: post.indexedAt,
+      depth: entry.depth,
+      likes: post.likeCount || 0,
+      reposts: post.repostCount || 0,
+      quotes: post.quoteCount || 0,
+      replies: entry.readerPosts.length,
+      uniqueRepliers: entry.repliers.size,
+      repliesWithin: REPLY_WINDOWS.map(window => replyTimes.filter(ms => ms <= window.ms).length),
+      repliesPerHour: entry.readerPosts.length / hours,
+    })
+
+    const branchPath = [...path, entry]
+    if (entry.childScenes.length === 0) {
+      const repliers = new Set(branchPath.flatMap(scene => [...scene.repliers]))
+      const likes = branchPath.reduce((sum, scene) => sum + (scene.node.post.likeCount || 0), 0)
+      branches.push({
+        label: describeScene(entry.node, titles),
+        sceneUris: branchPath.map(scene => scene.node.post.uri),
+        scenes: branchPath.length,
+        likes,
+        reposts: branchPath.reduce((sum, scene) => sum + (scene.node.post.repostCount || 0), 0),
+        quotes: branchPath.reduce((sum, scene) => sum + (scene.node.post.quoteCount || 0), 0),
+        replies: branchPath.reduce((sum, scene) => sum + scene.readerPosts.length, 0),
+        uniqueRepliers: repliers.size,
+        likesPerScene: likes / branchPath.length,
+      })
+    }
+
+    entry.childScenes.forEach(child => visit(child, branchPath))
+  }
+  visit(rootScene, [])
+
+  return {
+    scenes,
+    branches,
+    totals: {
+      likes: scenes.reduce((sum, scene) => sum + scene.likes, 0),
+      reposts: scenes.reduce((sum, scene) => sum + scene.reposts, 0),
+      quotes: scenes.reduce((sum, scene) => sum + scene.quotes, 0),
+      replies: scenes.reduce((sum, scene) => sum + scene.replies, 0),
+      uniqueRepliers: allRepliers.size,
+    },
+    generatedAt: now.toISOString(),
+  }
+}
+
+function csvField(value: string | number): string {
+  const text = typeof value === 'number' ? String(Math.round(value * 100) / 100) : value
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * One row per scene, then one per branch. Columns that don't apply to a
+ * row type are left empty.
+ */
+export function engagementStatsToCsv(stats: EngagementStats): string {
+  const header = [
+    'type', 'label', 'uri', 'posted_at', 'depth', 'scenes',
+    'likes', 'reposts', 'quotes', 'reader_replies', 'unique_repliers',
+    ...REPLY_WINDOWS.map(window => `replies_${window.label}`), 'replies_per_hour', 'likes_per_scene',
+  ]
+
+  const rows: (string | number)[][] = [
+    ...stats.scenes.map(scene => [
+      'scene', scene.label, scene.uri, scene.postedAt, scene.depth, '',
+      scene.likes, scene.reposts, scene.quotes, scene.replies, scene.uniqueRepliers,
+      ...scene.repliesWithin, scene.repliesPerHour, '',
+    ]),
+    ...stats.branches.map(branch => [
+      'branch', branch.label, branch.sceneUris[branch.sceneUris.length - 1], '', '', branch.scenes,
+      branch.likes, branch.reposts, branch.quotes, branch.replies, branch.uniqueRepliers,
+      ...REPLY_WINDOWS.map(() => ''), '', branch.likesPerScene,
+    ]),
+  ]
+
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n') + '\n'
+}
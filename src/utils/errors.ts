@@ -0,0 +1,7 @@
+/**
+ * The message of a caught error, or the fallback when it has none. Catch
+ * clauses see `unknown`, and libraries sometimes throw plain values.
+ */
+export function getErrorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error && error.message ? error.message : fallback
+}
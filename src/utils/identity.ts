@@ -0,0 +1,99 @@
+/**
+ * atproto identity helpers: find the PDS that hosts an account from its
+ * handle, and build links into the web app an account uses.
+ */
+
+export const DEFAULT_SERVICE = 'https://bsky.social'
+export const DEFAULT_WEB_APP_URL = 'https://bsky.app'
+
+const HANDLE_RESOLVER = 'https://bsky.social'
+const PLC_DIRECTORY = 'https://plc.directory'
+
+interface DidDocument {
+  id: string
+  service?: { id: string; type: string; serviceEndpoint: string }[]
+}
+
+/**
+ * Trim whitespace and trailing slashes from a configured URL. Returns
+ * undefined for an empty value and throws for anything that isn't http(s).
+ */
+export function normalizeServiceUrl(value: string): string | undefined {
+  const trimmed = value.trim().replace(/\/+$/, '')
+  if (!trimmed) return undefined
+
+  let url: URL
+  try {
+    url = new URL(trimmed)
+  } catch {
+    throw new Error(`"${value.trim()}" is not a valid URL`)
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error(`"${value.trim()}" must start with https:// or http://`)
+  }
+  return trimmed
+}
+
+async function resolveHandleToDid(handle: string): Promise<string> {
+  const response = await fetch(`${HANDLE_RESOLVER}/xrpc/com.atproto.identity.resolveHandle?handle=${encodeURIComponent(handle)}`)
+  if (!response.ok) {
+    throw new Error(`Could not resolve @${handle}`)
+  }
+  const data = await response.json()
+  return data.did
+}
+
+async function resolveDidDocument(did: string): Promise<DidDocument> {
+  let url: string
+  if (did.startsWith('did:plc:')) {
+    url = `${PLC_DIRECTORY}/${did}`
+  } else if (did.startsWith('did:web:')) {
+    url = `https://${decodeURIComponent(did.slice('did:web:'.length))}/.well-known/did.json`
+  } else {
+    throw new Error(`Unsupported DID method: ${did}`)
+  }
+
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Could not load the DID document for ${did}`)
+  }
+  return response.json()
+}
+
+/**
+ * The PDS URL listed in a DID document
+ */
+export function getPdsEndpoint(didDoc: DidDocument): string | undefined {
+  const service = didDoc.service?.find(s => s.id === '#atproto_pds' || s.id === `${didDoc.id}#atproto_pds`)
+  return service?.serviceEndpoint
+}
+
+/**
+ * Find the PDS hosting a handle or DID. Returns null for identifiers that
+ * can't be resolved (such as an email address) so callers can fall back
+ * to the default service.
+ */
+export async function discoverPds(identifier: string): Promise<string | null> {
+  if (identifier.includes('@')) return null
+
+  try {
+    const did = identifier.startsWith('did:') ? identifier : await resolveHandleToDid(identifier.replace(/^@/, ''))
+    const didDoc = await resolveDidDocument(did)
+    return getPdsEndpoint(didDoc) || null
+  } catch (error) {
+    console.error('PDS discovery failed:', error)
+    return null
+  }
+}
+
+export function buildProfileUrl(webAppUrl: string, handle: string): string {
+  return `${webAppUrl}/profile/${handle}`
+}
+
+export function buildHashtagUrl(webAppUrl: string, tag: string): string {
+  return `${webAppUrl}/hashtag/${encodeURIComponent(tag)}`
+}
+
+export function buildPostUrl(webAppUrl: string, handle: string, uri: string): string {
+  return `${buildProfileUrl(webAppUrl, handle)}/post/${uri.split('/').pop()}`
+}
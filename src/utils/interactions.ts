@@ -0,0 +1,70 @@
+import { InteractionSettings, ReplyRule } from '../types'
+
+/**
+ * Reply and quote controls: threadgate rules for who may reply to a
+ * thread, and a postgate that turns off quote posts
+ */
+
+export const REPLY_RULE_LABELS: Record<ReplyRule, string> = {
+  mention: 'Mentioned users',
+  follower: 'Your followers',
+  following: 'People you follow',
+  list: 'Members of a list',
+}
+
+/**
+ * Turn a list URL from the web app (https://bsky.app/profile/x/lists/y)
+ * into an at:// URI. at:// URIs are returned unchanged.
+ */
+export function parseListUri(value: string): string | null {
+  const trimmed = value.trim()
+  if (trimmed.startsWith('at://')) {
+    return /^at:\/\/[^/]+\/app\.bsky\.graph\.list\/[^/]+$/.test(trimmed) ? trimmed : null
+  }
+
+  const match = trimmed.match(/^https?:\/\/[^/]+\/profile\/([^/]+)\/lists\/([^/?#]+)/)
+  return match ? `at://${match[1]}/app.bsky.graph.list/${match[2]}` : null
+}
+
+/**
+ * Explain what is wrong with the settings, or null when they can be posted
+ */
+export function validateInteractions(settings: InteractionSettings | undefined): string | null {
+  if (settings?.replyRules?.includes('list') && !parseListUri(settings.replyListUri || '')) {
+    return 'Enter the list URL to allow replies from its members'
+  }
+  return null
+}
+
+/**
+ * The threadgate allow rules. Returns undefined when anyone may reply.
+ */
+export function buildThreadgateAllow(settings: InteractionSettings, listUri?: string): { $type: string; list?: string }[] | undefined {
+  if (!settings.replyRules) return undefined
+
+  return settings.replyRules.map(rule => {
+    switch (rule) {
+      case 'mention': return { $type: 'app.bsky.feed.threadgate#mentionRule' }
+      case 'follower': return { $type: 'app.bsky.feed.threadgate#followerRule' }
+      case 'following': return { $type: 'app.bsky.feed.threadgate#followingRule' }
+      case 'list': return { $type: 'app.bsky.feed.threadgate#listRule', list: listUri }
+    }
+  })
+}
+
+/**
+ * A short summary, e.g. "Your followers • no quotes"
+ */
+export function describeInteractions(settings: InteractionSettings | undefined): string {
+  const rules = settings?.replyRules
+  const replies = !rules
+    ? 'Anyone can reply'
+    : rules.length === 0
+      ? 'Nobody can reply'
+      : rules.map(rule => REPLY_RULE_LABELS[rule]).join(', ')
+  return settings?.disableQuotes ? `${replies} • no quotes` : replies
+}
+
+export function hasInteractionControls(settings: InteractionSettings | undefined): boolean {
+  return !!settings && (!!settings.replyRules || !!settings.disableQuotes)
+}
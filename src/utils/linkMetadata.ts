@@ -0,0 +1,79 @@
+import { LinkCard } from '../types'
+
+// What a page says about itself in its <head>
+export interface PageMetadata {
+  title: string
+  description: string
+  imageUrl?: string // Absolute
+}
+
+const LINK_PATTERN = /https?:\/\/[^\s<>"]+/
+
+/**
+ * Read the Open Graph (falling back to Twitter and plain HTML) title,
+ * description and image from a page
+ */
+export function parseLinkMetadata(html: string, pageUrl: string): PageMetadata {
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+
+  const meta = (...names: string[]): string | undefined => {
+    for (const name of names) {
+      const content = doc.querySelector(`meta[property="${name}"], meta[name="${name}"]`)?.getAttribute('content')?.trim()
+      if (content) return content
+    }
+    return undefined
+  }
+
+  let imageUrl: string | undefined
+  const image = meta('og:image', 'og:image:url', 'twitter:image')
+  if (image) {
+    try {
+      imageUrl = new URL(image, pageUrl).href
+    } catch {
+      imageUrl = undefined
+    }
+  }
+
+  return {
+    title: meta('og:title', 'twitter:title') || doc.title.trim(),
+    description: meta('og:description', 'twitter:description', 'description') || '',
+    imageUrl,
+  }
+}
+
+/**
+ * The first web link in some text, without trailing punctuation
+ */
+export function findFirstLink(text: string): string | null {
+  const match = text.match(LINK_PATTERN)
+  return match ? match[0].replace(/[.,;:!?)\]'’]+$/, '') : null
+}
+
+export function isWebUrl(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'https:' || url.protocol === 'http:'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Check a link card before posting. Returns an error message, or null if
+ * it can be posted.
+ */
+export function validateLinkCard(card: LinkCard | undefined): string | null {
+  if (!card) return null
+  if (!isWebUrl(card.uri)) {
+    return 'The link card needs a full web address starting with https://'
+  }
+  return null
+}
+
+export function getLinkDomain(uri: string): string {
+  try {
+    return new URL(uri).hostname.replace(/^www\./, '')
+  } catch {
+    return uri
+  }
+}
@@ -0,0 +1,35 @@
+import { PanelAspectRatio } from '../types'
+
+/**
+ * Image text can hold several image panels, separated by a line that
+ * contains only ---. Bluesky allows up to four images per post.
+ */
+
+export const MAX_IMAGE_PANELS = 4
+
+const PANEL_SEPARATOR = /^[ \t]*---[ \t]*$/m
+
+export const PANEL_ASPECT_RATIOS: { value: PanelAspectRatio; label: string; size?: { width: number; height: number } }[] = [
+  { value: 'auto', label: 'Fit text' },
+  { value: '1:1', label: 'Square', size: { width: 1, height: 1 } },
+  { value: '4:5', label: 'Portrait 4:5', size: { width: 4, height: 5 } },
+  { value: '16:9', label: 'Landscape 16:9', size: { width: 16, height: 9 } },
+]
+
+/**
+ * Split image text into its panels, dropping empty ones
+ */
+export function splitPanels(imageText: string): string[] {
+  return imageText
+    .split(PANEL_SEPARATOR)
+    .map(panel => panel.trim())
+    .filter(panel => panel.length > 0)
+}
+
+export function joinPanels(panels: string[]): string {
+  return panels.join('\n\n---\n\n')
+}
+
+export function getAspectRatioSize(aspectRatio: PanelAspectRatio | undefined): { width: number; height: number } | undefined {
+  return PANEL_ASPECT_RATIOS.find(option => option.value === aspectRatio)?.size
+}
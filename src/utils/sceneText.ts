@@ -0,0 +1,61 @@
+import { SplitSettings } from '../types'
+import { TextLimit, describeOverLimit } from './textMeasure'
+import { splitText } from './splitText'
+import { getErrorMessage } from './errors'
+
+/**
+ * The text a scene actually posts, shared by posting and the editor preview
+ */
+
+export interface SceneTextPlan {
+  parts: string[] // Posted in order as a chain of self-replies
+  error?: string // Set when the text can't be posted as it is
+}
+
+/**
+ * The choices block appended to a scene with no image or audio to carry
+ * the choices
+ */
+export function getChoicesEnding(imageText: string, choices: string, hasAudio: boolean): string | undefined {
+  if (hasAudio || imageText.trim() || !choices.trim()) return undefined
+  return `What do you do?\n${choices.trim()}`
+}
+
+export function buildSceneText(postText: string, imageText: string, choices: string, hasAudio: boolean): string {
+  const textToPost = postText.trim()
+  if (hasAudio) {
+    return textToPost || `🎵 Audio Post`
+  }
+  return [textToPost, getChoicesEnding(imageText, choices, hasAudio)].filter(Boolean).join('\n\n')
+}
+
+/**
+ * Work out the post text for a scene, split into parts when it is over
+ * the limit and splitting is turned on
+ */
+export function planSceneText(
+  postText: string,
+  imageText: string,
+  choices: string,
+  hasAudio: boolean,
+  limit: TextLimit,
+  split: SplitSettings
+): SceneTextPlan {
+  const text = buildSceneText(postText, imageText, choices, hasAudio)
+  const overLimit = describeOverLimit(text, limit, 'Post text')
+  if (!overLimit) {
+    return { parts: [text] }
+  }
+
+  if (!split.enabled) {
+    return { parts: [text], error: overLimit }
+  }
+
+  // Choices appended to a text-only scene stay together on the last part
+  const ending = getChoicesEnding(imageText, choices, hasAudio)
+  try {
+    return { parts: splitText(ending ? postText : text, { limit, numbering: split.numbering, ending }) }
+  } catch (error) {
+    return { parts: [text], error: getErrorMessage(error, 'The text could not be split') }
+  }
+}
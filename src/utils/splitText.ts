@@ -0,0 +1,158 @@
+import { NumberingStyle } from '../types'
+import { TextLimit, fitsLimit, measureText, splitGraphemes } from './textMeasure'
+
+/**
+ * Split text that is too long for one post into a chain of parts,
+ * breaking at paragraph and sentence boundaries where possible. Lengths
+ * are counted in graphemes and bytes, the way Bluesky counts its limit.
+ */
+
+export const NUMBERING_STYLES: { value: NumberingStyle; label: string }[] = [
+  { value: 'slash', label: '1/3' },
+  { value: 'parens', label: '(1/3)' },
+  { value: 'thread', label: '🧵 1/3' },
+  { value: 'none', label: 'No numbering' },
+]
+
+export interface SplitOptions {
+  limit: TextLimit // Per part, numbering included
+  numbering: NumberingStyle
+  ending?: string // Kept whole at the end of the last part, e.g. the choices
+}
+
+// A run of text and the whitespace that followed it
+interface Unit {
+  text: string
+  separator: string
+  atomic?: boolean
+}
+
+// Break after sentence punctuation (and any closing quotes or brackets), or at a line break
+const SENTENCE_BREAK = /((?<=[.!?…]["'”’)\]]*)[ \t]+|[ \t]*\n\s*)/
+
+export function formatPartNumber(style: NumberingStyle, index: number, total: number): string {
+  switch (style) {
+    case 'slash': return `${index}/${total}`
+    case 'parens': return `(${index}/${total})`
+    case 'thread': return `🧵 ${index}/${total}`
+    case 'none': return ''
+  }
+}
+
+function withNumber(text: string, style: NumberingStyle, index: number, total: number): string {
+  const label = formatPartNumber(style, index, total)
+  return label ? `${text}\n\n${label}` : text
+}
+
+function toUnits(text: string, pattern: RegExp): Unit[] {
+  const pieces = text.split(pattern)
+  const units: Unit[] = []
+  for (let i = 0; i < pieces.length; i += 2) {
+    const separator = pieces[i + 1] || ''
+    if (pieces[i]) {
+      units.push({ text: pieces[i], separator })
+    } else if (units.length > 0) {
+      units[units.length - 1].separator += separator
+    }
+  }
+  return units
+}
+
+/**
+ * Break a unit that can't fit in a part on its own: at spaces first, and
+ * as a last resort in the middle of a word
+ */
+function breakUnit(unit: Unit, budget: TextLimit): Unit[] {
+  const words = toUnits(unit.text, /(\s+)/)
+  if (words.length > 1) {
+    words[words.length - 1].separator = unit.separator
+    return words
+  }
+
+  const chars = splitGraphemes(unit.text)
+  let end = Math.min(chars.length, budget.maxGraphemes)
+  while (end > 1 && !fitsLimit(chars.slice(0, end).join(''), budget)) {
+    end--
+  }
+  return [
+    { text: chars.slice(0, end).join(''), separator: '' },
+    { text: chars.slice(end).join(''), separator: unit.separator },
+  ]
+}
+
+/**
+ * Fill parts greedily, assuming `total` parts when reserving room for the
+ * numbering
+ */
+function pack(units: Unit[], total: number, options: SplitOptions): string[] {
+  const parts: string[] = []
+  const queue = [...units]
+  let current = ''
+  let separator = ''
+
+  while (queue.length > 0) {
+    const unit = queue.shift()!
+    // Leave room for the part number
+    const label = measureText(withNumber('', options.numbering, parts.length + 1, total))
+    const budget: TextLimit = {
+      maxGraphemes: options.limit.maxGraphemes - label.graphemes,
+      maxBytes: options.limit.maxBytes === undefined ? undefined : options.limit.maxBytes - label.bytes,
+    }
+    if (budget.maxGraphemes < 1) {
+      throw new Error('The post limit is too small to split text into parts')
+    }
+
+    const candidate = current ? current + separator + unit.text : unit.text
+    if (fitsLimit(candidate, budget)) {
+      current = candidate
+      separator = unit.separator
+      continue
+    }
+
+    if (current) {
+      // Start a new part and try the unit again there
+      parts.push(current)
+      current = ''
+      queue.unshift(unit)
+      continue
+    }
+
+    if (unit.atomic) {
+      throw new Error(`The choices are too long for one post (${measureText(unit.text).graphemes} of ${budget.maxGraphemes} characters)`)
+    }
+    queue.unshift(...breakUnit(unit, budget))
+  }
+
+  if (current) parts.push(current)
+  return parts
+}
+
+/**
+ * Split text into numbered parts that each fit `limit`. Returns the text
+ * as a single part, without numbering, when it already fits.
+ */
+export function splitText(text: string, options: SplitOptions): string[] {
+  const ending = options.ending?.trim()
+  const body = text.trim()
+  const whole = [body, ending].filter(Boolean).join('\n\n')
+  if (fitsLimit(whole, options.limit)) {
+    return [whole]
+  }
+
+  const units = toUnits(body, SENTENCE_BREAK)
+  if (ending) {
+    if (units.length > 0) units[units.length - 1].separator = '\n\n'
+    units.push({ text: ending, separator: '', atomic: true })
+  }
+
+  // Numbering gets longer as the part count grows, which can add parts;
+  // repeat until the count we reserved room for is enough
+  let total = 2
+  for (;;) {
+    const parts = pack(units, total, options)
+    if (parts.length <= total) {
+      return parts.map((part, index) => withNumber(part, options.numbering, index + 1, parts.length))
+    }
+    total = parts.length
+  }
+}
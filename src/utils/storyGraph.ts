@@ -0,0 +1,157 @@
+import { ContentLabel, InteractionSettings, SceneData, Story, StoryEdge, StoryNode } from '../types'
+
+function emptyScene(): SceneData {
+  return { postText: '', imageText: '', choices: '' }
+}
+
+function touch(story: Story): void {
+  story.updatedAt = new Date().toISOString()
+}
+
+/**
+ * Create an empty story
+ */
+export function createStory(title: string): Story {
+  const now = new Date().toISOString()
+  return {
+    id: crypto.randomUUID(),
+    title,
+    rootNodeId: null,
+    nodes: [],
+    edges: [],
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+export function getNode(story: Story, nodeId: string): StoryNode | undefined {
+  return story.nodes.find(n => n.id === nodeId)
+}
+
+/**
+ * Add a scene to the story. The first scene added becomes the root.
+ */
+export function addScene(story: Story, title: string, scene: SceneData = emptyScene()): StoryNode {
+  const node: StoryNode = {
+    id: crypto.randomUUID(),
+    title,
+    scene,
+  }
+  story.nodes.push(node)
+  if (!story.rootNodeId) {
+    story.rootNodeId = node.id
+  }
+  touch(story)
+  return node
+}
+
+/**
+ * Add a new child scene reached from `parentId` by picking `choice`
+ */
+export function addBranch(story: Story, parentId: string, choice: string, title?: string): StoryNode {
+  const node = addScene(story, title || choice)
+  linkScenes(story, parentId, node.id, choice)
+  return node
+}
+
+/**
+ * Connect two existing scenes with a labelled choice edge
+ */
+export function linkScenes(story: Story, from: string, to: string, choice: string): StoryEdge {
+  if (!getNode(story, from) || !getNode(story, to)) {
+    throw new Error('Cannot link scenes that are not in this story')
+  }
+  if (from === to || isAncestor(story, to, from)) {
+    throw new Error('Linking these scenes would create a loop')
+  }
+
+  const edge: StoryEdge = {
+    id: crypto.randomUUID(),
+    from,
+    to,
+    choice,
+  }
+  story.edges.push(edge)
+  touch(story)
+  return edge
+}
+
+export function updateScene(story: Story, nodeId: string, updates: Partial<Omit<StoryNode, 'id'>>): void {
+  const node = getNode(story, nodeId)
+  if (!node) return
+  Object.assign(node, updates)
+  touch(story)
+}
+
+/**
+ * Remove a scene and every edge touching it. Children stay in the story
+ * as unconnected scenes so no planned writing is lost.
+ */
+export function removeScene(story: Story, nodeId: string): void {
+  story.nodes = story.nodes.filter(n => n.id !== nodeId)
+  story.edges = story.edges.filter(e => e.from !== nodeId && e.to !== nodeId)
+  if (story.rootNodeId === nodeId) {
+    story.rootNodeId = story.nodes[0]?.id || null
+  }
+  touch(story)
+}
+
+export function getOutgoingEdges(story: Story, nodeId: string): StoryEdge[] {
+  return story.edges.filter(e => e.from === nodeId)
+}
+
+export function getIncomingEdge(story: Story, nodeId: string): StoryEdge | undefined {
+  return story.edges.find(e => e.to === nodeId)
+}
+
+/**
+ * Scenes not reachable from the root (planned but not yet connected)
+ */
+export function getDetachedNodes(story: Story): StoryNode[] {
+  const reachable = new Set<string>()
+  const stack = story.rootNodeId ? [story.rootNodeId] : []
+  while (stack.length > 0) {
+    const current = stack.pop()!
+    if (reachable.has(current)) continue
+    reachable.add(current)
+    getOutgoingEdges(story, current).forEach(e => stack.push(e.to))
+  }
+  return story.nodes.filter(n => !reachable.has(n.id))
+}
+
+export function findNodeByPostUri(story: Story, postUri: string): StoryNode | undefined {
+  return story.nodes.find(n => n.post?.uri === postUri)
+}
+
+export function markPublished(story: Story, nodeId: string, post: { uri: string; cid: string }): void {
+  updateScene(story, nodeId, { post })
+}
+
+/**
+ * Set the reply and quote controls used by scenes that don't set their own
+ */
+export function setDefaultInteractions(story: Story, interactions: InteractionSettings | undefined): void {
+  story.interactions = interactions
+  touch(story)
+}
+
+/**
+ * Set the content warning used by scenes that don't set their own
+ */
+export function setDefaultLabels(story: Story, labels: ContentLabel[] | undefined): void {
+  story.labels = labels
+  touch(story)
+}
+
+function isAncestor(story: Story, candidate: string, nodeId: string): boolean {
+  const seen = new Set<string>()
+  const stack = [nodeId]
+  while (stack.length > 0) {
+    const current = stack.pop()!
+    if (current === candidate) return true
+    if (seen.has(current)) continue
+    seen.add(current)
+    story.edges.filter(e => e.to === current).forEach(e => stack.push(e.from))
+  }
+  return false
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+import { graphemeLength, splitGraphemes, truncateToLimit } from './textMeasure'
+import { splitText } from './splitText'
+
+const FAMILY = '👨‍👩‍👧‍👦' // Four emoji joined with ZWJ
+const FLAG = '🇯🇵' // Two regional indicators
+
+describe('splitGraphemes', () => {
+  it('keeps ZWJ sequences and flags whole', () => {
+    expect(splitGraphemes(`a${FAMILY}${FLAG}b`)).toEqual(['a', FAMILY, FLAG, 'b'])
+  })
+})
+
+describe('truncateToLimit', () => {
+  it('cuts between emoji, not inside them', () => {
+    const result = truncateToLimit(FAMILY.repeat(10), { maxGraphemes: 5 })
+    expect(result).toBe(FAMILY.repeat(4) + '…')
+    expect(graphemeLength(result)).toBe(5)
+  })
+
+  it('keeps flags whole', () => {
+    expect(truncateToLimit(FLAG.repeat(10), { maxGraphemes: 3 })).toBe(FLAG.repeat(2) + '…')
+  })
+})
+
+describe('splitText', () => {
+  it('breaks a long run of emoji between graphemes', () => {
+    const parts = splitText(`${FAMILY}${FLAG}`.repeat(10), { limit: { maxGraphemes: 7 }, numbering: 'none' })
+    expect(parts.join('')).toBe(`${FAMILY}${FLAG}`.repeat(10))
+    for (const part of parts) {
+      expect(splitGraphemes(part).every(g => g === FAMILY || g === FLAG)).toBe(true)
+      expect(graphemeLength(part)).toBeLessThanOrEqual(7)
+    }
+  })
+})
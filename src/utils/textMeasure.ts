@@ -0,0 +1,74 @@
+import { UnicodeString } from '@atproto/api'
+
+/**
+ * Measure text the way Bluesky limits it: by graphemes (what a reader sees
+ * as one character) and by UTF-8 bytes. An emoji can be one grapheme but
+ * many UTF-16 code units and bytes, so String.length is wrong both ways.
+ */
+
+export interface TextMeasurement {
+  graphemes: number
+  bytes: number
+}
+
+export interface TextLimit {
+  maxGraphemes: number
+  maxBytes?: number
+}
+
+// Limits from the app.bsky lexicons; image alt text has none, so use the Bluesky app's
+export const POST_TEXT_LIMIT: TextLimit = { maxGraphemes: 300, maxBytes: 3000 }
+export const IMAGE_ALT_LIMIT: TextLimit = { maxGraphemes: 2000 }
+export const VIDEO_ALT_LIMIT: TextLimit = { maxGraphemes: 1000, maxBytes: 10000 }
+
+export function measureText(text: string): TextMeasurement {
+  const unicode = new UnicodeString(text)
+  return { graphemes: unicode.graphemeLength, bytes: unicode.length }
+}
+
+export function graphemeLength(text: string): number {
+  return new UnicodeString(text).graphemeLength
+}
+
+const graphemeSegmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' })
+
+/**
+ * Split text into graphemes, so a cut never lands inside an emoji sequence
+ * or a letter with combining marks
+ */
+export function splitGraphemes(text: string): string[] {
+  return Array.from(graphemeSegmenter.segment(text), ({ segment }) => segment)
+}
+
+export function fitsLimit(text: string, limit: TextLimit): boolean {
+  const { graphemes, bytes } = measureText(text)
+  return graphemes <= limit.maxGraphemes && (limit.maxBytes === undefined || bytes <= limit.maxBytes)
+}
+
+/**
+ * Explain why text is over a limit, or null when it fits
+ */
+export function describeOverLimit(text: string, limit: TextLimit, label = 'Text'): string | null {
+  const { graphemes, bytes } = measureText(text)
+  if (graphemes > limit.maxGraphemes) {
+    return `${label} is ${graphemes} characters; the limit is ${limit.maxGraphemes}`
+  }
+  if (limit.maxBytes !== undefined && bytes > limit.maxBytes) {
+    return `${label} is ${bytes} bytes once encoded; the limit is ${limit.maxBytes}`
+  }
+  return null
+}
+
+/**
+ * Shorten text to fit a limit, ending with an ellipsis when cut
+ */
+export function truncateToLimit(text: string, limit: TextLimit): string {
+  if (fitsLimit(text, limit)) return text
+
+  const chars = splitGraphemes(text)
+  let end = Math.min(chars.length, limit.maxGraphemes) - 1
+  while (end > 0 && !fitsLimit(chars.slice(0, end).join('').trimEnd() + '…', limit)) {
+    end--
+  }
+  return chars.slice(0, end).join('').trimEnd() + '…'
+}
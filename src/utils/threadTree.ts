@@ -0,0 +1,78 @@
+import { Post } from '../types'
+import { isPostView, PostThreadView, ThreadView } from './threadView'
+
+export interface ThreadTreeNode {
+  post: Post
+  children: ThreadTreeNode[]
+  depth: number
+  isScene: boolean // Posted by the adventure author rather than a reader
+  x: number // Layout column (leaf slots)
+  y: number // Layout row (depth)
+}
+
+/**
+ * Build a tree from a parsed getPostThread response. Posts by the root
+ * author are marked as scenes; everything else is a reader comment.
+ * Replies that can't be shown are left out.
+ */
+export function buildThreadTree(thread: ThreadView): ThreadTreeNode | null {
+  if (!isPostView(thread)) return null
+
+  const authorDid = thread.post.author.did
+
+  const build = (view: PostThreadView, depth: number): ThreadTreeNode => ({
+    post: view.post,
+    depth,
+    isScene: view.post.author.did === authorDid,
+    children: view.replies
+      .filter(isPostView)
+      .sort((a, b) => a.post.indexedAt.localeCompare(b.post.indexedAt))
+      .map(reply => build(reply, depth + 1)),
+    x: 0,
+    y: depth,
+  })
+
+  return build(thread, 0)
+}
+
+/**
+ * Simple tidy-tree layout: leaves take consecutive columns and each
+ * parent is centred over its children. Returns the number of columns.
+ */
+export function layoutThreadTree(root: ThreadTreeNode): number {
+  let nextColumn = 0
+
+  const place = (node: ThreadTreeNode): void => {
+    if (node.children.length === 0) {
+      node.x = nextColumn++
+      return
+    }
+    node.children.forEach(place)
+    node.x = (node.children[0].x + node.children[node.children.length - 1].x) / 2
+  }
+
+  place(root)
+  return nextColumn
+}
+
+export function flattenThreadTree(root: ThreadTreeNode): ThreadTreeNode[] {
+  const nodes: ThreadTreeNode[] = []
+  const walk = (node: ThreadTreeNode) => {
+    nodes.push(node)
+    node.children.forEach(walk)
+  }
+  walk(root)
+  return nodes
+}
+
+/**
+ * Path of nodes from the root down to the post with the given URI
+ */
+export function findPathTo(root: ThreadTreeNode, uri: string): ThreadTreeNode[] | null {
+  if (root.post.uri === uri) return [root]
+  for (const child of root.children) {
+    const path = findPathTo(child, uri)
+    if (path) return [root, ...path]
+  }
+  return null
+}
@@ -0,0 +1,137 @@
+import { AppBskyFeedDefs, AppBskyFeedPost } from '@atproto/api'
+import { Post, ThreadReplies, UnavailablePost } from '../types'
+import { BadRecordError } from './blueskyErrors'
+
+/**
+ * One node of a getPostThread response: a post with its replies, or a
+ * placeholder for a post that can't be shown
+ */
+export type ThreadView =
+  | { status: 'post'; post: Post; replies: ThreadView[] }
+  | UnavailablePost
+
+export type PostThreadView = Extract<ThreadView, { status: 'post' }>
+
+export function isPostView(view: ThreadView): view is PostThreadView {
+  return view.status === 'post'
+}
+
+/**
+ * Map an AppView post view to our Post, checking the fields the app reads.
+ * Throws BadRecordError when the record isn't a usable app.bsky.feed.post.
+ */
+export function toPost(view: AppBskyFeedDefs.PostView): Post {
+  const { record } = view
+  if (!AppBskyFeedPost.isRecord(record)) {
+    throw new BadRecordError(`${view.uri} is not a post record`, view.uri)
+  }
+
+  const post: Post = {
+    uri: view.uri,
+    cid: view.cid,
+    author: {
+      did: view.author?.did,
+      handle: view.author?.handle,
+      displayName: view.author?.displayName,
+    },
+    record: {
+      text: record.text,
+      createdAt: record.createdAt,
+      facets: record.facets,
+      reply: record.reply && {
+        root: { uri: record.reply.root.uri, cid: record.reply.root.cid },
+        parent: { uri: record.reply.parent.uri, cid: record.reply.parent.cid },
+      },
+    },
+    embed: view.embed,
+    replyCount: view.replyCount,
+    repostCount: view.repostCount,
+    likeCount: view.likeCount,
+    quoteCount: view.quoteCount,
+    indexedAt: view.indexedAt,
+  }
+
+  if (!isStoredPost(post)) {
+    throw new BadRecordError(`Bluesky returned an incomplete post: ${view.uri}`, view.uri)
+  }
+  return post
+}
+
+/**
+ * Turn the app.bsky.feed.defs thread union into a ThreadView. Union
+ * members this version doesn't know about are treated as not found, and
+ * replies with unreadable records as invalid. A root post with an
+ * unreadable record throws BadRecordError.
+ */
+export function parseThreadView(view: unknown): ThreadView {
+  if (AppBskyFeedDefs.isThreadViewPost(view)) {
+    return {
+      status: 'post',
+      post: toPost(view.post),
+      replies: (view.replies || []).map(parseReplyView),
+    }
+  }
+  if (AppBskyFeedDefs.isBlockedPost(view)) {
+    return { status: 'blocked', uri: view.uri, authorDid: view.author.did }
+  }
+  if (AppBskyFeedDefs.isNotFoundPost(view)) {
+    return { status: 'notFound', uri: view.uri }
+  }
+
+  const uri = isRecord(view) && typeof view.uri === 'string' ? view.uri : ''
+  return { status: 'notFound', uri }
+}
+
+function parseReplyView(view: unknown): ThreadView {
+  try {
+    return parseThreadView(view)
+  } catch (error) {
+    if (!(error instanceof BadRecordError)) throw error
+    console.error('Skipping unreadable reply:', error)
+    return { status: 'invalid', uri: error.uri || '' }
+  }
+}
+
+/**
+ * Split parsed replies into posts and placeholders. Replies that are no
+ * longer found but were among the known posts are marked deleted.
+ */
+export function splitReplies(replies: ThreadView[], known: Post[] = []): ThreadReplies {
+  const knownUris = new Set(known.map(post => post.uri))
+
+  return {
+    posts: replies.filter(isPostView).map(reply => reply.post),
+    unavailable: replies
+      .filter((reply): reply is UnavailablePost => !isPostView(reply))
+      .map(reply => reply.status === 'notFound' && knownUris.has(reply.uri)
+        ? { ...reply, status: 'deleted' as const }
+        : reply),
+  }
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+/**
+ * Whether a value restored from storage has the fields the thread view
+ * reads from a post
+ */
+export function isStoredPost(value: unknown): value is Post {
+  if (!isRecord(value) || !isRecord(value.author) || !isRecord(value.record)) return false
+
+  return typeof value.uri === 'string' &&
+    typeof value.cid === 'string' &&
+    typeof value.author.did === 'string' &&
+    typeof value.author.handle === 'string' &&
+    typeof value.record.text === 'string' &&
+    typeof value.indexedAt === 'string'
+}
+
+const UNAVAILABLE_STATUSES: unknown[] = ['deleted', 'blocked', 'notFound', 'invalid']
+
+export function isStoredUnavailablePost(value: unknown): value is UnavailablePost {
+  return isRecord(value) &&
+    typeof value.uri === 'string' &&
+    UNAVAILABLE_STATUSES.includes(value.status)
+}
@@ -0,0 +1,27 @@
+/**
+ * Record keys in the atproto TID format: a 53-bit microsecond timestamp
+ * and a 10-bit clock id, written as 13 sortable base32 characters
+ */
+
+const BASE32_SORTABLE = '234567abcdefghijklmnopqrstuvwxyz'
+
+const clockId = Math.floor(Math.random() * 1024)
+let lastTimestamp = 0
+
+function encodeBase32(value: number, length: number): string {
+  let encoded = ''
+  for (let i = 0; i < length; i++) {
+    encoded = BASE32_SORTABLE[value % 32] + encoded
+    value = Math.floor(value / 32)
+  }
+  return encoded
+}
+
+/**
+ * A new TID, later than any returned before in this session
+ */
+export function nextTid(): string {
+  const timestamp = Math.max(Date.now() * 1000, lastTimestamp + 1)
+  lastTimestamp = timestamp
+  return encodeBase32(timestamp, 11) + encodeBase32(clockId, 2)
+}
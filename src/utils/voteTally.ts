@@ -0,0 +1,299 @@
+import { AppBskyEmbedImages, AppBskyEmbedVideo } from '@atproto/api'
+import { Post } from '../types'
+import { stripMarkdown } from './markdown'
+
+export interface ParsedChoice {
+  index: number // 1-based position in the choices list
+  letter: string // Upper-case letter, from an "A)" style prefix or the position
+  label: string // Choice text without its number/letter prefix
+  keywords: string[] // Words that identify this choice and no other
+}
+
+export type VoteSource = 'reply' | 'like'
+
+export interface Vote {
+  voterDid: string
+  voterHandle: string
+  choiceIndex: number
+  source: VoteSource
+  reply: Post // The reply that was voted with (or liked)
+}
+
+export interface ChoiceResult {
+  choice: ParsedChoice
+  votes: number
+  replyVotes: number
+  likeVotes: number
+  rank: number // Tied choices share a rank
+}
+
+export interface UnmatchedReply {
+  reply: Post
+  reason: 'no-match' | 'ambiguous'
+}
+
+export interface VoteTally {
+  results: ChoiceResult[] // Sorted by votes, highest first
+  winners: ParsedChoice[] // More than one entry means a tie for first place
+  unmatched: UnmatchedReply[]
+  votes: Vote[]
+  totalVotes: number
+}
+
+export interface ReplyLikes {
+  replyUri: string
+  likers: { did: string; handle: string }[]
+}
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'into', 'onto', 'that', 'this', 'then',
+  'them', 'they', 'your', 'you', 'our', 'his', 'her', 'its', 'are', 'was',
+  'were', 'will', 'just', 'what', 'when', 'where', 'which', 'who', 'how',
+  'about', 'over', 'under', 'back', 'again', 'some', 'all', 'any', 'not',
+  'but', 'have', 'has', 'had', 'get', 'got', 'go', 'do', 'does', 'did',
+])
+
+const CHOICE_PREFIX = /^\s*(?:(\d+)|([A-Za-z]))\s*[).:\-]\s+/
+const VOTE_WORDS = '(?:option|choice|vote|pick|choose|going with|go with|i choose|i pick|i vote)'
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[^\p{L}\p{N}\s']/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function words(text: string): string[] {
+  return normalize(text)
+    .split(' ')
+    .filter(w => w.length >= 3 && !STOP_WORDS.has(w))
+}
+
+/**
+ * Parse the editor's choices text (one per line) into matchable choices.
+ * Supports "A) Go left", "1. Go left" and unprefixed lines.
+ */
+export function parseChoices(choicesText: string): ParsedChoice[] {
+  const lines = choicesText
+    .split('\n')
+    .map(line => stripMarkdown(line.trim()))
+    .filter(line => line.length > 0)
+
+  const choices = lines.map((line, i) => {
+    const prefix = line.match(CHOICE_PREFIX)
+    const letter = prefix?.[2]
+      ? prefix[2].toUpperCase()
+      : String.fromCharCode(65 + i)
+    return {
+      index: i + 1,
+      letter,
+      label: prefix ? line.slice(prefix[0].length).trim() : line,
+      keywords: [] as string[],
+    }
+  })
+
+  // Keywords only count when they identify exactly one choice
+  const wordCounts = new Map<string, number>()
+  choices.forEach(choice => {
+    new Set(words(choice.label)).forEach(w => wordCounts.set(w, (wordCounts.get(w) || 0) + 1))
+  })
+  choices.forEach(choice => {
+    choice.keywords = [...new Set(words(choice.label))].filter(w => wordCounts.get(w) === 1)
+  })
+
+  return choices
+}
+
+/**
+ * Match a single reply to a choice. Checks, in order of confidence:
+ * quoted choice text, choice number, choice letter, then unique keywords.
+ * Returns the 1-based choice index, 'ambiguous' or null for no match.
+ */
+export function matchReplyToChoice(text: string, choices: ParsedChoice[]): number | 'ambiguous' | null {
+  if (choices.length === 0) return null
+
+  const pick = (candidates: number[]): number | 'ambiguous' | null => {
+    const unique = [...new Set(candidates)]
+    if (unique.length === 1) return unique[0]
+    if (unique.length > 1) return 'ambiguous'
+    return null
+  }
+
+  // 1. Quoted choice text: "go left" or “go left”
+  const quoted = [...text.matchAll(/["“”«»]([^"“”«»]+)["“”«»]/g)].map(m => normalize(m[1]))
+  if (quoted.length > 0) {
+    const result = pick(
+      choices
+        .filter(choice => {
+          const label = normalize(choice.label)
+          return quoted.some(q => q.length > 0 && (label === q || label.includes(q) || q.includes(label)))
+        })
+        .map(choice => choice.index)
+    )
+    if (result !== null) return result
+  }
+
+  const trimmed = text.trim()
+
+  // 2. Choice number: "2", "#2", "option 2", "2) go left"
+  const numberPatterns = [
+    /^#?(\d+)\s*[).:!]?\s*$/,
+    /^#?(\d+)\s*[).:\-]\s/,
+    new RegExp(`\\b${VOTE_WORDS}\\s*#?(\\d+)\\b`, 'gi'),
+  ]
+  const numbers: number[] = []
+  numberPatterns.forEach(pattern => {
+    if (pattern.global) {
+      for (const m of trimmed.matchAll(pattern)) numbers.push(parseInt(m[1], 10))
+    } else {
+      const m = trimmed.match(pattern)
+      if (m) numbers.push(parseInt(m[1], 10))
+    }
+  })
+  const numberResult = pick(numbers.filter(n => choices.some(c => c.index === n)))
+  if (numberResult !== null) return numberResult
+
+  // 3. Choice letter: "B", "b)", "(c)", "option B". A lower-case letter in
+  // running text only counts when it ends the phrase, so that "I pick a door"
+  // doesn't vote for A.
+  const letters: string[] = []
+  const bareLetter = trimmed.match(/^\(?([A-Za-z])\)?\s*[.!]?\s*$/) || trimmed.match(/^\(?([A-Za-z])\s*[).:\-]\s/)
+  if (bareLetter) letters.push(bareLetter[1].toUpperCase())
+
+  const votePattern = new RegExp(`\\b${VOTE_WORDS}\\s*(\\()?([A-Za-z])(\\))?(?![A-Za-z])`, 'gi')
+  for (const m of trimmed.matchAll(votePattern)) {
+    const rest = trimmed.slice((m.index || 0) + m[0].length)
+    const isUpper = m[2] === m[2].toUpperCase()
+    if (m[1] || m[3] || isUpper || /^\s*(?:$|[.!,;])/.test(rest)) {
+      letters.push(m[2].toUpperCase())
+    }
+  }
+  const letterResult = pick(
+    choices.filter(c => letters.includes(c.letter)).map(c => c.index)
+  )
+  if (letterResult !== null) return letterResult
+
+  // 4. Keywords unique to one choice; the choice with the most hits wins
+  const replyWords = new Set(words(text))
+  const hits = choices
+    .map(choice => ({
+      index: choice.index,
+      count: choice.keywords.filter(k => replyWords.has(k)).length,
+    }))
+    .filter(h => h.count > 0)
+  if (hits.length === 0) return null
+
+  const best = Math.max(...hits.map(h => h.count))
+  return pick(hits.filter(h => h.count === best).map(h => h.index))
+}
+
+/**
+ * Tally reader votes for a scene. Each reader gets one vote: their most
+ * recent matching reply, or failing that a like on a matched reply.
+ * The scene author's own replies and likes are ignored.
+ */
+export function tallyVotes(
+  replies: Post[],
+  choices: ParsedChoice[],
+  options: { sceneAuthorDid?: string; likes?: ReplyLikes[] } = {}
+): VoteTally {
+  const ballots = new Map<string, Vote>()
+  const unmatched: UnmatchedReply[] = []
+  const matchedReplies = new Map<string, { reply: Post; choiceIndex: number }>()
+
+  const readerReplies = replies
+    .filter(reply => reply.author.did !== options.sceneAuthorDid)
+    .sort((a, b) => a.record.createdAt.localeCompare(b.record.createdAt))
+
+  readerReplies.forEach(reply => {
+    const match = matchReplyToChoice(reply.record.text, choices)
+    if (match === null || match === 'ambiguous') {
+      unmatched.push({ reply, reason: match === null ? 'no-match' : 'ambiguous' })
+      return
+    }
+
+    matchedReplies.set(reply.uri, { reply, choiceIndex: match })
+    // Later replies replace earlier ones, so readers can change their mind
+    ballots.set(reply.author.did, {
+      voterDid: reply.author.did,
+      voterHandle: reply.author.handle,
+      choiceIndex: match,
+      source: 'reply',
+      reply,
+    })
+  })
+
+  options.likes?.forEach(({ replyUri, likers }) => {
+    const matched = matchedReplies.get(replyUri)
+    if (!matched) return
+
+    likers.forEach(liker => {
+      if (liker.did === options.sceneAuthorDid || ballots.has(liker.did)) return
+      ballots.set(liker.did, {
+        voterDid: liker.did,
+        voterHandle: liker.handle,
+        choiceIndex: matched.choiceIndex,
+        source: 'like',
+        reply: matched.reply,
+      })
+    })
+  })
+
+  const votes = [...ballots.values()]
+  const results: ChoiceResult[] = choices
+    .map(choice => {
+      const forChoice = votes.filter(v => v.choiceIndex === choice.index)
+      return {
+        choice,
+        votes: forChoice.length,
+        replyVotes: forChoice.filter(v => v.source === 'reply').length,
+        likeVotes: forChoice.filter(v => v.source === 'like').length,
+        rank: 0,
+      }
+    })
+    .sort((a, b) => b.votes - a.votes || a.choice.index - b.choice.index)
+
+  // Competition ranking: 1, 1, 3
+  results.forEach((result, i) => {
+    result.rank = i > 0 && result.votes === results[i - 1].votes
+      ? results[i - 1].rank
+      : i + 1
+  })
+
+  const winners = results.length > 0 && results[0].votes > 0
+    ? results.filter(r => r.rank === 1).map(r => r.choice)
+    : []
+
+  return {
+    results,
+    winners,
+    unmatched,
+    votes,
+    totalVotes: votes.length,
+  }
+}
+
+/**
+ * Pull the choices back out of a posted scene. Text-only posts and
+ * image/video alt text both use the "What do you do?" layout.
+ */
+export function extractChoicesFromPost(post: Post): string {
+  const sources = [post.record.text]
+  const embed = post.embed
+  if (AppBskyEmbedImages.isView(embed)) {
+    embed.images.forEach(image => sources.push(image.alt || ''))
+  }
+  if (AppBskyEmbedVideo.isView(embed) && embed.alt) {
+    sources.push(embed.alt)
+  }
+
+  for (const source of sources) {
+    const marker = source.indexOf('What do you do?')
+    if (marker >= 0) {
+      return source.slice(marker + 'What do you do?'.length).trim()
+    }
+  }
+  return ''
+}
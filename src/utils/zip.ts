@@ -0,0 +1,167 @@
+/**
+ * Minimal zip support for adventure archives. Writing stores files
+ * uncompressed (the media is already compressed); reading also handles
+ * deflated entries, so archives re-zipped by other tools still import.
+ */
+
+export interface ZipEntry {
+  name: string
+  data: Uint8Array
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50
+const END_OF_CENTRAL_DIR_SIGNATURE = 0x06054b50
+const UTF8_FLAG = 0x0800
+const METHOD_STORED = 0
+const METHOD_DEFLATED = 8
+
+let crcTable: Uint32Array | null = null
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      }
+      crcTable[n] = c >>> 0
+    }
+  }
+
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+/**
+ * Build a zip file from a list of entries
+ */
+export function createZip(entries: ZipEntry[]): Blob {
+  const encoder = new TextEncoder()
+  const { time, date } = toDosDateTime(new Date())
+  const parts: BlobPart[] = []
+  const centralParts: BlobPart[] = []
+  let centralSize = 0
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const crc = crc32(entry.data)
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, LOCAL_HEADER_SIGNATURE, true)
+    local.setUint16(4, 20, true) // Version needed
+    local.setUint16(6, UTF8_FLAG, true)
+    local.setUint16(8, METHOD_STORED, true)
+    local.setUint16(10, time, true)
+    local.setUint16(12, date, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, entry.data.length, true)
+    local.setUint32(22, entry.data.length, true)
+    local.setUint16(26, name.length, true)
+    local.setUint16(28, 0, true)
+
+    const central = new DataView(new ArrayBuffer(46))
+    central.setUint32(0, CENTRAL_HEADER_SIGNATURE, true)
+    central.setUint16(4, 20, true) // Version made by
+    central.setUint16(6, 20, true) // Version needed
+    central.setUint16(8, UTF8_FLAG, true)
+    central.setUint16(10, METHOD_STORED, true)
+    central.setUint16(12, time, true)
+    central.setUint16(14, date, true)
+    central.setUint32(16, crc, true)
+    central.setUint32(20, entry.data.length, true)
+    central.setUint32(24, entry.data.length, true)
+    central.setUint16(28, name.length, true)
+    central.setUint32(42, offset, true)
+
+    parts.push(new Uint8Array(local.buffer), name, entry.data as BlobPart)
+    centralParts.push(new Uint8Array(central.buffer), name)
+    centralSize += 46 + name.length
+    offset += 30 + name.length + entry.data.length
+  }
+
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, END_OF_CENTRAL_DIR_SIGNATURE, true)
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  return new Blob([...parts, ...centralParts, new Uint8Array(end.buffer)], { type: 'application/zip' })
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/**
+ * Read all files from a zip, keyed by path
+ */
+export async function readZip(blob: Blob): Promise<Map<string, Uint8Array>> {
+  const bytes = new Uint8Array(await blob.arrayBuffer())
+  const view = new DataView(bytes.buffer)
+  const decoder = new TextDecoder()
+
+  // The end record sits at the very end, before an optional comment
+  let endOffset = -1
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIR_SIGNATURE) {
+      endOffset = i
+      break
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error('Not a zip file')
+  }
+
+  const count = view.getUint16(endOffset + 10, true)
+  let position = view.getUint32(endOffset + 16, true)
+  const files = new Map<string, Uint8Array>()
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(position, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Corrupt zip file')
+    }
+
+    const method = view.getUint16(position + 10, true)
+    const compressedSize = view.getUint32(position + 20, true)
+    const nameLength = view.getUint16(position + 28, true)
+    const extraLength = view.getUint16(position + 30, true)
+    const commentLength = view.getUint16(position + 32, true)
+    const localOffset = view.getUint32(position + 42, true)
+    const name = decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength))
+    position += 46 + nameLength + extraLength + commentLength
+
+    // Directories have no content
+    if (name.endsWith('/')) continue
+
+    // Sizes come from the central record; the local one may be a placeholder
+    const localNameLength = view.getUint16(localOffset + 26, true)
+    const localExtraLength = view.getUint16(localOffset + 28, true)
+    const dataStart = localOffset + 30 + localNameLength + localExtraLength
+    const data = bytes.subarray(dataStart, dataStart + compressedSize)
+
+    if (method === METHOD_STORED) {
+      files.set(name, data)
+    } else if (method === METHOD_DEFLATED) {
+      files.set(name, await inflateRaw(data))
+    } else {
+      throw new Error(`Unsupported compression in ${name}`)
+    }
+  }
+
+  return files
+}
@@ -0,0 +1,14 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // URL of the hosted OAuth client metadata document. When unset, the app
+  // uses an atproto loopback client, which only works on 127.0.0.1.
+  readonly VITE_OAUTH_CLIENT_ID?: string
+  // Page proxy for link card previews, called as <proxy>?url=<page> and
+  // <proxy>?url=<image>&type=image for the thumbnail. Development uses the dev server's own proxy when this is unset.
+  readonly VITE_LINK_PREVIEW_PROXY?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}
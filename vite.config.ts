@@ -1,7 +1,164 @@
-import { defineConfig } from 'vite'
+import { defineConfig, Plugin } from 'vite'
+import { lookup } from 'node:dns'
+import http from 'node:http'
+import https from 'node:https'
+import { BlockList, LookupFunction, isIP } from 'node:net'
+
+const MAX_REDIRECTS = 5
+const MAX_RESPONSE_BYTES = 5 * 1024 * 1024 // The app scales thumbnails down to 1 MB itself
+const REQUEST_TIMEOUT_MS = 10000
+
+// Loopback, private, link-local and other non-public ranges the proxy must
+// not reach
+const blockedAddresses = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+  ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16], ['224.0.0.0', 3],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6')
+}
+
+class BlockedAddressError extends Error {}
+
+function isBlockedAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i) // IPv4-mapped IPv6
+  if (mapped) return blockedAddresses.check(mapped[1], 'ipv4')
+  return blockedAddresses.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4')
+}
+
+// Used for the connection itself, so a host can't resolve to a public
+// address when checked and a private one when connected to
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', 0)
+    if (addresses.some(({ address }) => isBlockedAddress(address))) {
+      return callback(new BlockedAddressError(`${hostname} resolves to a private address`), '', 0)
+    }
+    if (options.all) return callback(null, addresses)
+    callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+interface ProxiedResponse {
+  status: number
+  contentType: string
+  url: string // After redirects
+  body: Buffer
+}
+
+/**
+ * GET a public http(s) URL, following redirects and refusing private
+ * addresses and responses over MAX_RESPONSE_BYTES
+ */
+function fetchPublic(url: URL, redirects = 0): Promise<ProxiedResponse> {
+  return new Promise((resolve, reject) => {
+    if (!['http:', 'https:'].includes(url.protocol)) {
+      return reject(new BlockedAddressError('Only http and https links can be previewed'))
+    }
+    // Node skips the lookup for IP literals
+    const host = url.hostname.replace(/^\[|\]$/g, '')
+    if (isIP(host) && isBlockedAddress(host)) {
+      return reject(new BlockedAddressError(`${host} is a private address`))
+    }
+
+    const client = url.protocol === 'https:' ? https : http
+    const request = client.get(url, {
+      headers: { 'User-Agent': 'BotAdventure link preview' },
+      lookup: publicLookup,
+      timeout: REQUEST_TIMEOUT_MS,
+    }, response => {
+      const status = response.statusCode || 502
+      const { location } = response.headers
+      if (status >= 300 && status < 400 && location) {
+        response.resume()
+        if (redirects >= MAX_REDIRECTS) return reject(new Error('Too many redirects'))
+        return fetchPublic(new URL(location, url), redirects + 1).then(resolve, reject)
+      }
+
+      if (Number(response.headers['content-length']) > MAX_RESPONSE_BYTES) {
+        request.destroy()
+        return reject(new Error('The response is too large'))
+      }
+
+      const chunks: Buffer[] = []
+      let size = 0
+      response.on('data', (chunk: Buffer) => {
+        size += chunk.length
+        if (size > MAX_RESPONSE_BYTES) {
+          request.destroy()
+          reject(new Error('The response is too large'))
+          return
+        }
+        chunks.push(chunk)
+      })
+      response.on('end', () => resolve({
+        status,
+        contentType: response.headers['content-type'] || '',
+        url: url.href,
+        body: Buffer.concat(chunks),
+      }))
+      response.on('error', reject)
+    })
+    request.on('timeout', () => request.destroy(new Error('The request timed out')))
+    request.on('error', reject)
+  })
+}
+
+// Fetches pages (?url=) and their images (?url=&type=image) for link card
+// previews, which the browser can't read cross-origin. Dev server only;
+// see src/services/linkPreview.ts.
+function linkPreviewProxy(): Plugin {
+  return {
+    name: 'link-preview-proxy',
+    configureServer(server) {
+      server.middlewares.use('/link-proxy', async (req, res) => {
+        if (req.method !== 'GET') {
+          res.statusCode = 405
+          res.setHeader('Allow', 'GET')
+          res.end()
+          return
+        }
+
+        const params = new URL(req.url || '/', 'http://localhost').searchParams
+        const target = params.get('url')
+        const wantsImage = params.get('type') === 'image'
+        if (!target || !/^https?:\/\//.test(target)) {
+          res.statusCode = 400
+          res.end('Expected ?url=https://...')
+          return
+        }
+
+        try {
+          const response = await fetchPublic(new URL(target))
+          const type = response.contentType.split(';')[0].trim().toLowerCase()
+          if (wantsImage ? !type.startsWith('image/') : type !== 'text/html') {
+            res.statusCode = 415
+            res.end(`Expected ${wantsImage ? 'an image' : 'an HTML page'}, got ${type || 'no content type'}`)
+            return
+          }
+
+          res.statusCode = response.status
+          res.setHeader('Content-Type', response.contentType)
+          // Served from the app's origin, so never let it run as a page
+          res.setHeader('Content-Security-Policy', 'sandbox')
+          res.setHeader('X-Content-Type-Options', 'nosniff')
+          res.setHeader('X-Final-Url', response.url)
+          res.end(response.body)
+        } catch (error) {
+          res.statusCode = error instanceof BlockedAddressError ? 403 : 502
+          res.end(`Could not fetch ${target}: ${error}`)
+        }
+      })
+    },
+  }
+}
 
 // https://vitejs.dev/config/
 export default defineConfig({
+  plugins: [linkPreviewProxy()],
   server: {
     port: 3003,
     headers: {
@@ -12,4 +169,4 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['@ffmpeg/ffmpeg', '@ffmpeg/util']
   }
-})
\ No newline at end of file
+})